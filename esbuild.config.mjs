@@ -2,6 +2,7 @@ import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
 import fs from "fs";
+import path from "path";
 
 const banner =
 `/*
@@ -13,6 +14,22 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// `types:<package>/<file>` imports content of declaration file from node_modules as string, so it can be
+// written next to generated declarations
+const typeDefinitionsPlugin = {
+	name: "type-definitions",
+	setup(build) {
+		build.onResolve({ filter: /^types:/ }, (args) => ({
+			path: path.resolve("node_modules", args.path.slice("types:".length)),
+			namespace: "type-definitions",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "type-definitions" }, async (args) => ({
+			contents: await fs.promises.readFile(args.path, "utf8"),
+			loader: "text",
+		}));
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -47,6 +64,7 @@ const context = await esbuild.context({
     },
 	outfile: "main.js",
     metafile: true,
+	plugins: [typeDefinitionsPlugin],
 });
 
 if (prod) {
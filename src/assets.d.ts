@@ -0,0 +1,5 @@
+// Content of declaration file from node_modules, see esbuild.config.mjs
+declare module 'types:*' {
+    const content: string;
+    export default content;
+}
@@ -0,0 +1,79 @@
+import type { EmeraBlockType } from './processors/markdown-blocks';
+import { safeCall } from './utils';
+
+export type BlockRecord = {
+    // Same as id of block's write scope, so it's unique within the vault
+    id: string,
+    type: EmeraBlockType,
+    mode: 'preview' | 'edit',
+    file: string | null,
+    index: number,
+    // Zero-based line of block in note, null if unknown (e.g. for inline elements)
+    line: number | null,
+    source: string,
+    readScopeId: string,
+    exports: string[],
+    error: unknown,
+    transpileTime: number | null,
+    renderTime: number | null,
+    updatedAt: number,
+};
+
+// Collects diagnostics about rendered blocks, used by inspector
+export class BlockRegistry {
+    private records = new Map<string, BlockRecord>();
+    private listeners: Set<VoidFunction> = new Set();
+    private willInvokeListeners = false;
+
+    start(record: Omit<BlockRecord, 'exports' | 'error' | 'transpileTime' | 'renderTime' | 'updatedAt'>) {
+        this.records.set(record.id, {
+            ...record,
+            exports: [],
+            error: null,
+            transpileTime: null,
+            renderTime: null,
+            updatedAt: Date.now(),
+        });
+        this.scheduleOnChange();
+    }
+
+    update(id: string, patch: Partial<Omit<BlockRecord, 'id'>>) {
+        const record = this.records.get(id);
+        if (!record) return;
+        this.records.set(id, { ...record, ...patch, updatedAt: Date.now() });
+        this.scheduleOnChange();
+    }
+
+    // Drops records of blocks which don't exist anymore. Scope ids end with block index, so we remove everything
+    // past the last one
+    prune(scopePrefix: string, total: number) {
+        let changed = false;
+        this.records.forEach((record, id) => {
+            if (id.startsWith(scopePrefix) && record.index >= total) {
+                this.records.delete(id);
+                changed = true;
+            }
+        });
+        if (changed) this.scheduleOnChange();
+    }
+
+    getForFile(path: string) {
+        return Array.from(this.records.values())
+            .filter(record => record.file === path)
+            .sort((a, b) => a.index - b.index);
+    }
+
+    onChange(cb: VoidFunction) {
+        this.listeners.add(cb);
+        return () => this.listeners.delete(cb);
+    }
+
+    private scheduleOnChange() {
+        if (this.willInvokeListeners) return;
+        setTimeout(() => {
+            this.willInvokeListeners = false;
+            this.listeners.forEach(safeCall);
+        }, 0);
+        this.willInvokeListeners = true;
+    }
+}
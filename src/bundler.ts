@@ -1,10 +1,15 @@
-import { rollup, type Plugin as RollupPlugin } from '@rollup/browser';
+import { rollup, type Plugin as RollupPlugin, type RollupCache } from '@rollup/browser';
 import { normalizePath, Notice } from 'obsidian';
 import * as Babel from '@babel/standalone';
 import { ReactNode } from 'react';
 import type { EmeraPlugin } from './plugin';
-import { EMERA_GET_SCOPE, EMERA_MODULES } from './consts';
+import { EMERA_GET_SCOPE, EMERA_MODULES, EMERA_NOTE_IMPORT_PREFIX, EMERA_NOTE_MODULES, EMERA_REMOTE_MODULES, EMERA_STYLES } from './consts';
 import { getScope, ScopeNode } from './scope';
+import { getImportMapPath, ImportMap, loadImportMap, matchImportMap } from './import-map';
+import { compileCssModule, isCssModule, styleRegistry } from './styles';
+import { transpileCache, TranspileResult } from './transpile-cache';
+import { createModuleUrl, registerSourceMap, SourceMap, SourceOrigin } from './source-maps';
+import { createRemoteModules, getRemoteCacheFolder, isRemoteUrl, RemoteModules } from './remote-imports';
 
 // @ts-ignore not included in package types, but it's there!
 const t = Babel.packages.types;
@@ -30,14 +35,73 @@ function resolvePath(base: string, relative: string) {
     return stack.join('/');
 }
 
+// Replaces import declaration with awaited call which resolves to module namespace
+function replaceImportWithCall(path: any, call: any) {
+    const specifiers = path.node.specifiers;
+    if (specifiers.length === 0) {
+        path.replaceWith(t.expressionStatement(call));
+        return;
+    }
+
+    const namespace = specifiers.find((specifier: any) => t.isImportNamespaceSpecifier(specifier));
+    if (namespace) {
+        path.replaceWith(t.variableDeclaration("const", [
+            t.variableDeclarator(t.identifier(namespace.local.name), call)
+        ]));
+        return;
+    }
+
+    const properties = specifiers.map((specifier: any) => t.objectProperty(
+        t.isImportDefaultSpecifier(specifier) ? t.identifier('default') : t.identifier(specifier.imported.name),
+        t.identifier(specifier.local.name),
+        false,
+        !t.isImportDefaultSpecifier(specifier) && specifier.imported.name === specifier.local.name
+    ));
+    path.replaceWith(t.variableDeclaration("const", [
+        t.variableDeclarator(t.objectPattern(properties), call)
+    ]));
+}
+
+const importCall = (global: string, args: string[]) => t.awaitExpression(t.callExpression(
+    t.memberExpression(
+        t.memberExpression(t.identifier('window'), t.identifier(global)),
+        t.identifier('import')
+    ),
+    args.map(arg => t.stringLiteral(arg))
+));
+
+// Turns `import { a } from 'note:Path.md'` into `const { a } = await window._emeraNoteModules.import('Path.md', importer)`
+function rewriteNoteImport(path: any, source: string, importer: string) {
+    replaceImportWithCall(path, importCall(EMERA_NOTE_MODULES, [source, importer]));
+}
+
+// Code from notes isn't bundled, so remote imports go through the same pinned cache as in user module instead of
+// being fetched by browser: `const { a } = await window._emeraRemoteModules.import(url)`
+function rewriteRemoteImport(path: any, source: string) {
+    replaceImportWithCall(path, importCall(EMERA_REMOTE_MODULES, [source]));
+}
+
 function importRewriter() {
     return {
         visitor: {
-            ImportDeclaration(path: any) {
+            ImportDeclaration(path: any, state: any) {
                 const source = path.node.source.value;
+                const importMap = state.opts.importMap as ImportMap | undefined;
+
+                if (source.startsWith(EMERA_NOTE_IMPORT_PREFIX)) {
+                    rewriteNoteImport(path, source, state.opts.importer ?? '');
+                    return;
+                }
+
+                // Rollup resolves remote imports of bundled files itself
+                if (isRemoteUrl(source) && !state.opts.bundled) {
+                    rewriteRemoteImport(path, source);
+                    return;
+                }
 
                 const ignoredPrefixes = ['.', 'http://', 'https://'];
-                if (!ignoredPrefixes.some(p => source.startsWith(p))) {
+                // Modules from import map are bundled by Rollup, so we leave them as is
+                if (!ignoredPrefixes.some(p => source.startsWith(p)) && !matchImportMap(importMap, source)) {
                     const specifiers = path.node.specifiers;
 
                     const properties = specifiers.map((specifier: any) => {
@@ -240,6 +304,10 @@ function scopeRewriter() {
                 if (isPartOfTypeofUndefinedCheck(path)) return;
                 if (isPartOfScopeHasCheck(path, name)) return;
 
+                // Collected, so blocks can be re-evaluated when values they read change
+                state.file.metadata.emeraScopeReads ??= new Set<string>();
+                state.file.metadata.emeraScopeReads.add(name);
+
                 const replacement = t.parenthesizedExpression(
                     t.conditionalExpression(
                         t.callExpression(
@@ -287,13 +355,28 @@ Babel.registerPlugin("scopeRewriter", scopeRewriter);
 type TranspileCodeOptions = {
     rewriteImports?: boolean
     scope?: ScopeNode,
+    importMap?: ImportMap,
+    // Source map is generated only if file name is provided
+    sourceFileName?: string,
+    // Path of note or file code belongs to, note imports are resolved relative to it
+    importer?: string,
+    // Code is part of Rollup bundle, which resolves remote imports itself
+    bundled?: boolean,
 };
 
-export const transpileCode = (
+export const transpile = (
     code: string,
-    { rewriteImports = true, scope }: TranspileCodeOptions = {}) => {
+    { rewriteImports = true, scope, importMap, sourceFileName, importer, bundled = false }: TranspileCodeOptions = {}): TranspileResult => {
+    const scopeNode = scope ?? getScope('root');
+    // Scope id is embedded into transpiled code, so it's part of cache key along with options
+    const variant = JSON.stringify([scopeNode.id, rewriteImports, importMap ?? null, sourceFileName ?? null, importer ?? null, bundled]);
+    const cached = transpileCache.get(code, variant);
+    if (cached) return cached;
+
     const transpiled = Babel.transform(code, {
         sourceType: "unambiguous",
+        sourceMaps: !!sourceFileName,
+        sourceFileName,
         presets: [
             [
                 Babel.availablePresets['react'],
@@ -311,22 +394,171 @@ export const transpileCode = (
             ]
         ],
         plugins: [
-            ...(rewriteImports ? [Babel.availablePlugins["importRewriter"]] : []),
-            [Babel.availablePlugins["scopeRewriter"], { scope: scope ?? getScope('root') }],
+            ...(rewriteImports ? [[Babel.availablePlugins["importRewriter"], { importMap, importer, bundled }]] : []),
+            [Babel.availablePlugins["scopeRewriter"], { scope: scopeNode }],
         ],
-    }).code;
-    if (!transpiled) {
+    });
+    if (!transpiled.code) {
         throw new Error('Babel failed :(');
     }
     // console.log('Original', code);
-    // console.log(transpiled);
-    return transpiled;
+    // console.log(transpiled.code);
+    const result = {
+        code: transpiled.code,
+        map: (transpiled.map ?? null) as SourceMap | null,
+        // @ts-ignore custom metadata set by scopeRewriter
+        reads: Array.from((transpiled.metadata?.emeraScopeReads ?? []) as Set<string>),
+    };
+    transpileCache.set(code, variant, result);
+    return result;
+};
+
+export const transpileCode = (code: string, options: TranspileCodeOptions = {}) => {
+    return transpile(code, options).code;
+};
+
+export type ScopeReference = {
+    name: string,
+    start: number,
+    end: number,
+    // In `{ Callout }` identifier is also property key, which should stay the same when renaming
+    shorthand: boolean,
+};
+
+// Finds identifiers which are read from scope rather than declared in code itself, including JSX tag names. Object
+// keys, member properties and JSX attributes aren't references. Also returns names code declares at top level.
+// JSX children (as in `emera` blocks) should be passed with `jsx: true`
+export const findScopeReferences = (code: string, names: Set<string>, { jsx = false }: { jsx?: boolean } = {}) => {
+    const prefix = jsx ? '<>' : '';
+    const source = jsx ? `${prefix}${code}</>` : code;
+    const references = new Map<number, ScopeReference>();
+    const declared: string[] = [];
+
+    const add = (path: any, name: string) => {
+        if (!names.has(name) || path.scope.hasBinding(name)) return;
+        const start = path.node.start - prefix.length;
+        const shorthand = t.isObjectProperty(path.parent) && path.parent.shorthand;
+        references.set(start, { name, start, end: start + name.length, shorthand });
+    };
+
+    const collector = () => ({
+        visitor: {
+            Program(program: any) {
+                names.forEach(name => program.scope.hasOwnBinding(name) && declared.push(name));
+                // Collected before presets transform JSX, so offsets point to original code
+                program.traverse({
+                    Identifier(path: any) {
+                        if (isStandaloneReference(path)) add(path, path.node.name);
+                    },
+                    JSXIdentifier(path: any) {
+                        const parent = path.parent;
+                        const isTagName = (t.isJSXOpeningElement(parent) || t.isJSXClosingElement(parent)) && parent.name === path.node;
+                        const isNamespaceObject = t.isJSXMemberExpression(parent) && parent.object === path.node;
+                        if (isTagName || isNamespaceObject) add(path, path.node.name);
+                    },
+                });
+            },
+        },
+    });
+
+    Babel.transform(source, {
+        sourceType: "unambiguous",
+        code: false,
+        parserOpts: { allowAwaitOutsideFunction: true, allowReturnOutsideFunction: true },
+        presets: [
+            [Babel.availablePresets['react'], { runtime: "automatic" }],
+            [Babel.availablePresets['typescript'], { allExtensions: true, isTSX: true }],
+        ],
+        plugins: [collector],
+    });
+
+    return {
+        references: Array.from(references.values()).sort((a, b) => a.start - b.start),
+        declared,
+    };
 };
 
+function isStandaloneReference(path: any) {
+    if (!path.isReferencedIdentifier()) return false;
+    // Types don't exist at runtime, so they can't come from scope
+    if (path.findParent((p: any) => t.isTSType(p.node) || t.isTSTypeAnnotation(p.node))) return false;
+    const parent = path.parent;
+    if ((t.isMemberExpression(parent) || t.isOptionalMemberExpression(parent)) && parent.property === path.node) {
+        return parent.computed;
+    }
+    return true;
+}
+
 // @ts-ignore
 window.transpileCode = transpileCode;
 
-const rollupVirtualFsPlugin = (plugin: EmeraPlugin, path: string): RollupPlugin => ({
+const moduleExtensions = ['.js', '.mjs', '.jsx', '.ts', '.tsx', '.css'];
+
+// Picks entry point from package.json, preferring ES modules
+const getPackageEntry = (pkg: any): string | null => {
+    const pickCondition = (value: any): string | null => {
+        if (typeof value === 'string') return value;
+        if (Array.isArray(value)) return value.map(pickCondition).find(Boolean) ?? null;
+        if (value && typeof value === 'object') {
+            for (const condition of ['browser', 'import', 'module', 'default']) {
+                if (condition in value) {
+                    const picked = pickCondition(value[condition]);
+                    if (picked) return picked;
+                }
+            }
+        }
+        return null;
+    };
+
+    if (pkg.exports) {
+        const rootExport = typeof pkg.exports === 'object' && !Array.isArray(pkg.exports) && '.' in pkg.exports
+            ? pkg.exports['.']
+            : pkg.exports;
+        const entry = pickCondition(rootExport);
+        if (entry) return entry;
+    }
+    if (typeof pkg.module === 'string') return pkg.module;
+    if (typeof pkg.main === 'string') return pkg.main;
+    return null;
+};
+
+// Resolves path to module file the same way Node does: exact file, file with extension, or folder
+// with package.json or index file
+const resolveModuleFile = async (plugin: EmeraPlugin, path: string, checkPackage = true): Promise<string | null> => {
+    const adapter = plugin.app.vault.adapter;
+    const stat = await adapter.stat(path);
+    if (stat?.type === 'file') {
+        return path;
+    }
+
+    for (const ext of moduleExtensions) {
+        const pathWithExt = `${path}${ext}`;
+        const exists = await adapter.exists(pathWithExt);
+        if (exists) {
+            return pathWithExt;
+        }
+    }
+
+    if (stat?.type === 'folder') {
+        const packageJsonPath = `${path}/package.json`;
+        if (checkPackage && await adapter.exists(packageJsonPath)) {
+            try {
+                const entry = getPackageEntry(JSON.parse(await adapter.read(packageJsonPath)));
+                if (entry) {
+                    const resolved = await resolveModuleFile(plugin, normalizePath(resolvePath(packageJsonPath, entry)), false);
+                    if (resolved) return resolved;
+                }
+            } catch (err) {
+                console.log(`Couldn't read ${packageJsonPath}`, err);
+            }
+        }
+        return resolveModuleFile(plugin, `${path}/index`, false);
+    }
+
+    return null;
+};
+
+const rollupVirtualFsPlugin = (plugin: EmeraPlugin, path: string, importMap: ImportMap): RollupPlugin => ({
     name: 'virtualFs',
     async resolveId(source, importer) {
         if (source === path) {
@@ -335,19 +567,19 @@ const rollupVirtualFsPlugin = (plugin: EmeraPlugin, path: string): RollupPlugin
 
         if (importer && (source.startsWith('./') || source.startsWith('../'))) {
             const resolvedPath = resolvePath(importer, source);
-            const extensions = ['.js', '.jsx', '.ts', '.tsx', '.css'];
-
-            if (extensions.some(ext => resolvedPath.endsWith(ext))) {
+            if (moduleExtensions.some(ext => resolvedPath.endsWith(ext))) {
                 return resolvedPath;
             }
+            return resolveModuleFile(plugin, resolvedPath);
+        }
 
-            for (const ext of extensions) {
-                const pathWithExt = `${resolvedPath}${ext}`;
-                const exists = await plugin.app.vault.adapter.exists(pathWithExt);
-                if (exists) {
-                    return pathWithExt;
-                }
+        const mappedPath = matchImportMap(importMap, source);
+        if (mappedPath) {
+            const resolved = await resolveModuleFile(plugin, mappedPath);
+            if (!resolved) {
+                throw new Error(`Import map maps '${source}' to '${mappedPath}', but there is no such module`);
             }
+            return resolved;
         }
 
         return null;
@@ -361,95 +593,348 @@ const rollupVirtualFsPlugin = (plugin: EmeraPlugin, path: string): RollupPlugin
     }
 });
 
-const rollupBabelPlugin = (plugin: EmeraPlugin): RollupPlugin => ({
+const rollupBabelPlugin = (plugin: EmeraPlugin, importMap: ImportMap): RollupPlugin => ({
     name: 'babel-plugin',
     transform(code, id) {
-        return { code: transpileCode(code) };
+        // Remote modules are already browser-ready
+        if (isRemoteUrl(id)) return null;
+        return transpile(code, { importMap, sourceFileName: id, importer: id, bundled: true });
     }
 });
 
-const rollupCssPlugin = (plugin: EmeraPlugin): RollupPlugin => ({
+// Styles are registered under owner, so reloaded bundle replaces its previous styles
+const rollupCssPlugin = (plugin: EmeraPlugin, owner: string): RollupPlugin => ({
     name: 'emera-styles',
     transform(code, id) {
         if (!id.endsWith('.css')) return;
 
+        let css = code;
+        let classes: Record<string, string> = {};
+        if (isCssModule(id)) {
+            ({ css, classes } = compileCssModule(code, id));
+        }
+
         const injectionCode = `
-          (function() {
-            var style = document.createElement('style');
-            style.textContent = ${JSON.stringify(code)};
-            document.head.appendChild(style);
-          })();
+            window[${JSON.stringify(EMERA_STYLES)}].inject(${JSON.stringify(owner)}, ${JSON.stringify(id)}, ${JSON.stringify(css)});
+            export default ${JSON.stringify(classes)};
         `;
 
-        return { code: injectionCode };
+        return { code: injectionCode, map: { mappings: '' } };
     }
 });
 
-export const bundleFile = async (plugin: EmeraPlugin, path: string) => {
+type BundleFileOptions = {
+    // Pass if you bundle multiple files at once, so they share lockfile
+    remoteModules?: RemoteModules,
+    // Styles imported by bundle are tracked under this key, defaults to bundled file path
+    styleOwner?: string,
+};
+
+export type BuildReport = {
+    entry: string,
+    duration: number,
+    // Total number of modules in bundle
+    modules: number,
+    // Modules which were transformed during this build, others were taken from cache
+    rebuilt: string[],
+};
+
+// Results of previous build of each entry. Import map affects how modules are transformed, so cache is valid
+// only for the same import map
+const bundleCaches = new Map<string, { cache: RollupCache, importMap: string }>();
+
+// Rollup re-transforms modules whose source changed on its own. But we also want to re-transform modules which
+// import changed ones, so we find them by walking import graph backwards
+const findStaleModules = async (plugin: EmeraPlugin, cache: RollupCache) => {
+    const modules = cache.modules ?? [];
+    const changed = new Set<string>();
+    await Promise.all(modules.map(async (module) => {
+        if (isRemoteUrl(module.id)) return;
+        const exists = await plugin.app.vault.adapter.exists(module.id);
+        const code = exists ? await plugin.app.vault.adapter.read(module.id) : null;
+        if (code !== module.originalCode) changed.add(module.id);
+    }));
+
+    const importers = new Map<string, string[]>();
+    modules.forEach((module) => {
+        module.dependencies.forEach((dependency) => {
+            importers.set(dependency, [...(importers.get(dependency) ?? []), module.id]);
+        });
+    });
+
+    const stale = new Set(changed);
+    const queue = Array.from(changed);
+    while (queue.length) {
+        const id = queue.pop()!;
+        (importers.get(id) ?? []).forEach((importer) => {
+            if (stale.has(importer)) return;
+            stale.add(importer);
+            queue.push(importer);
+        });
+    }
+    return stale;
+};
+
+const rollupBuildReportPlugin = (stale: Set<string>, rebuilt: Set<string>): RollupPlugin => ({
+    name: 'emera-build-report',
+    shouldTransformCachedModule({ id }) {
+        return stale.has(id);
+    },
+    // Transform hooks aren't called for modules taken from cache, so this is exactly list of rebuilt modules
+    transform(code, id) {
+        rebuilt.add(id);
+        return null;
+    },
+});
+
+export const bundleFile = async (plugin: EmeraPlugin, path: string, { remoteModules, styleOwner = path }: BundleFileOptions = {}) => {
     console.log('Bundling', path);
+    const start = performance.now();
+    const importMap = await loadImportMap(plugin);
+    const importMapKey = JSON.stringify(importMap);
+    const remote = remoteModules ?? await createRemoteModules(plugin);
+
+    const previous = bundleCaches.get(path);
+    const cache = previous?.importMap === importMapKey ? previous.cache : undefined;
+    const stale = cache ? await findStaleModules(plugin, cache) : new Set<string>();
+    const rebuilt = new Set<string>();
+
     const bundle = await rollup({
         input: path,
+        cache,
         plugins: [
-            rollupVirtualFsPlugin(plugin, path),
-            rollupCssPlugin(plugin),
-            rollupBabelPlugin(plugin),
+            rollupBuildReportPlugin(stale, rebuilt),
+            remote.rollupPlugin(),
+            rollupVirtualFsPlugin(plugin, path, importMap),
+            rollupCssPlugin(plugin, styleOwner),
+            rollupBabelPlugin(plugin, importMap),
         ]
     })
-    const { output } = await bundle.generate({ format: 'es' });
+    const { output } = await bundle.generate({ format: 'es', sourcemap: true });
     // console.log('Bundled code');
     // console.log(output[0].code);
+    if (bundle.cache) {
+        bundleCaches.set(path, { cache: bundle.cache, importMap: importMapKey });
+    }
     await bundle.close();
-    return output[0].code;
+    if (!remoteModules) {
+        await remote.save();
+    }
+
+    const report: BuildReport = {
+        entry: path,
+        duration: performance.now() - start,
+        modules: bundle.cache?.modules.length ?? rebuilt.size,
+        rebuilt: Array.from(rebuilt),
+    };
+    console.log(`Bundled ${path} in ${report.duration.toFixed(0)} ms, rebuilt ${report.rebuilt.length} of ${report.modules} modules`);
+
+    return {
+        code: output[0].code,
+        map: (output[0].map ?? null) as SourceMap | null,
+        report,
+    };
+};
+
+// Remote modules imported from notes are bundled once per session. Bundles are built one at a time, so they
+// don't overwrite each other's changes of lockfile
+const remoteImports = new Map<string, Promise<Record<string, any>>>();
+let remoteImportsQueue: Promise<unknown> = Promise.resolve();
+
+export const importRemoteModule = (plugin: EmeraPlugin, url: string) => {
+    let module = remoteImports.get(url);
+    if (!module) {
+        module = remoteImportsQueue.then(async () => {
+            const remote = await createRemoteModules(plugin);
+            const bundle = await rollup({ input: url, plugins: [remote.rollupPlugin()] });
+            const { output } = await bundle.generate({ format: 'es' });
+            await bundle.close();
+            await remote.save();
+            return importFromString(output[0].code, { ignoreCache: false });
+        });
+        remoteImportsQueue = module.catch(() => {});
+        // Failed import (e.g. while offline) is tried again next time
+        module.catch(() => remoteImports.delete(url));
+        remoteImports.set(url, module);
+    }
+    return module;
+};
+
+type ImportFromStringOptions = {
+    ignoreCache?: boolean,
+    sourceMap?: SourceMap | null,
+    // Pass for code from notes, so errors point to note instead of generated file name
+    sourceOrigin?: SourceOrigin,
 };
 
-export const importFromString = (code: string, ignoreCache = true) => {
+export const importFromString = (code: string, { ignoreCache = true, sourceMap, sourceOrigin }: ImportFromStringOptions = {}) => {
+    // Appended, so line numbers in source map stay valid
     if (ignoreCache) {
-        code = `// Cache buster: ${Math.random()}\n\n` + code;
+        code = code + `\n// Cache buster: ${Math.random()}`;
+    }
+    if (sourceMap) {
+        const url = createModuleUrl();
+        registerSourceMap(url, sourceMap, sourceOrigin);
+        code = code + `\n//# sourceURL=${url}`;
     }
     const encodedCode = `data:text/javascript;charset=utf-8,${encodeURIComponent(code)}`;
     return import(encodedCode);
 };
 
 
-export const compileJsxIntoFactory = async (jsx: string, scope?: ScopeNode): Promise<() => ReactNode> => {
+export type JsxFactory = {
+    factory: () => ReactNode,
+    // Scope identifiers JSX reads
+    reads: string[],
+};
+
+export const compileJsxIntoFactory = async (jsx: string, scope?: ScopeNode, sourceOrigin?: SourceOrigin): Promise<JsxFactory> => {
     const source = `export default () => {
         return (<>${jsx}</>);
     };`;
     // console.log('====== Scope', scope);
     // console.log('====== Original JSX');
     // console.log(jsx);
-    const transpiled = transpileCode(source, {
+    const { code: transpiled, map, reads } = transpile(source, {
         scope,
+        sourceFileName: sourceOrigin?.path ?? 'jsx',
     });
     // console.log('====== Compiled JSX code');
     // console.log(transpiled);
-    const { default: factory } = await importFromString(transpiled);
-    return factory;
+    const { default: factory } = await importFromString(transpiled, {
+        sourceMap: map,
+        // JSX is wrapped into function, so it starts on second line
+        sourceOrigin: sourceOrigin && {
+            ...sourceOrigin,
+            lineOffset: sourceOrigin.lineOffset === null ? null : sourceOrigin.lineOffset - 1,
+        },
+    });
+    return { factory, reads };
 };
 
-export const loadUserModule = async (plugin: EmeraPlugin): Promise<Record<string, any>> => {
-    const extensions = ['js', 'jsx', 'ts', 'tsx'];
-    let indexFile: string | null = null;
-    for (const ext of extensions) {
-        const path = normalizePath(`${plugin.settings.componentsFolder}/index.${ext}`);
+const userModuleExtensions = ['.js', '.mjs', '.jsx', '.ts', '.tsx', '.css'];
+const entrypointExtensions = ['js', 'jsx', 'ts', 'tsx'];
+
+export type ResolvedLibrary = {
+    // Human-readable name used in error messages
+    name: string,
+    folder: string,
+    entry: string | null,
+    namespace: string,
+};
+
+const getParentFolder = (path: string) => {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '' : path.slice(0, index);
+};
+
+const findIndexFile = async (plugin: EmeraPlugin, folder: string) => {
+    for (const ext of entrypointExtensions) {
+        const path = normalizePath(`${folder}/index.${ext}`);
         const exists = await plugin.app.vault.adapter.exists(path);
         if (exists) {
-            indexFile = path;
-            break;
+            return path;
         }
     }
-    if (!indexFile) {
-        console.log('Index file not found');
+    return null;
+};
+
+// Entry of additional library might be either file or folder with index file
+const getLibraryFolder = (entry: string) => {
+    const path = normalizePath(entry);
+    return entrypointExtensions.some(ext => path.endsWith(`.${ext}`)) ? getParentFolder(path) : path;
+};
+
+export const getLibraryFolders = (plugin: EmeraPlugin) => {
+    return [
+        normalizePath(plugin.settings.componentsFolder),
+        ...plugin.settings.libraries.filter(lib => lib.entry.trim()).map(lib => getLibraryFolder(lib.entry)),
+    ];
+};
+
+export const resolveLibraries = async (plugin: EmeraPlugin): Promise<ResolvedLibrary[]> => {
+    const defaultFolder = normalizePath(plugin.settings.componentsFolder);
+    const libraries: ResolvedLibrary[] = [{
+        name: 'user module',
+        folder: defaultFolder,
+        entry: await findIndexFile(plugin, defaultFolder),
+        namespace: '',
+    }];
+
+    for (const library of plugin.settings.libraries) {
+        if (!library.entry.trim()) continue;
+        const path = normalizePath(library.entry);
+        const folder = getLibraryFolder(path);
+        libraries.push({
+            name: library.namespace || path,
+            folder,
+            entry: folder === path ? await findIndexFile(plugin, folder) : path,
+            namespace: library.namespace.trim(),
+        });
+    }
+
+    return libraries;
+};
+
+export const isUserModuleFile = (plugin: EmeraPlugin, path: string) => {
+    if (path === getImportMapPath(plugin)) return true;
+    // Cache is written during bundling, we don't want to trigger another reload
+    if (path.startsWith(`${getRemoteCacheFolder(plugin)}/`)) return false;
+    if (!getLibraryFolders(plugin).some(folder => path.startsWith(`${folder}/`))) return false;
+    // Declaration files aren't bundled, and we generate some of them ourselves
+    if (path.endsWith('.d.ts')) return false;
+    return userModuleExtensions.some(ext => path.endsWith(ext));
+};
+
+const loadLibrary = async (plugin: EmeraPlugin, library: ResolvedLibrary, remoteModules: RemoteModules, reports: BuildReport[]): Promise<Record<string, any>> => {
+    if (library.namespace && !/^[A-Za-z_$][\w$]*$/.test(library.namespace)) {
+        new Notice(`Namespace '${library.namespace}' of ${library.entry} isn't valid identifier, library wasn't loaded`);
         return {};
     }
-    console.log('Loading index file', indexFile);
+    if (!library.entry) {
+        console.log(`Index file for ${library.name} not found`);
+        return {};
+    }
+    console.log('Loading index file', library.entry);
 
     try {
-        const bundledCode = await bundleFile(plugin, indexFile);
-        const registry = await importFromString(bundledCode);
+        const { code, map, report } = await bundleFile(plugin, library.entry, { remoteModules });
+        reports.push(report);
+        // Styles of previous version are dropped right before new version injects its own
+        styleRegistry.removeOwner(library.entry);
+        const registry = await importFromString(code, { sourceMap: map });
         return registry;
     } catch (err) {
-        new Notice("Error happened while loading components: " + err.toString());
+        new Notice(`Error happened while loading components from ${library.name}: ` + err.toString());
         return {};
     }
 };
+
+type LoadUserModuleOptions = {
+    // Re-download all remote modules and pin their current content
+    updateRemotePins?: boolean,
+};
+
+export const loadUserModule = async (plugin: EmeraPlugin, { updateRemotePins = false }: LoadUserModuleOptions = {}) => {
+    const libraries = await resolveLibraries(plugin);
+    const remoteModules = await createRemoteModules(plugin, { updatePins: updateRemotePins });
+    styleRegistry.retainOwners(libraries.flatMap(library => library.entry ? [library.entry] : []));
+    // Each library is bundled separately, so error in one of them doesn't affect others
+    const reports: BuildReport[] = [];
+    const modules = await Promise.all(libraries.map(library => loadLibrary(plugin, library, remoteModules, reports)));
+    try {
+        await remoteModules.save();
+    } catch (err) {
+        new Notice(`Emera couldn't save remote modules lockfile: ${err.toString()}`);
+    }
+
+    const registry: Record<string, any> = {};
+    libraries.forEach((library, index) => {
+        if (library.namespace) {
+            registry[library.namespace] = { ...modules[index] };
+        } else {
+            Object.assign(registry, modules[index]);
+        }
+    });
+    return { registry, reports };
+};
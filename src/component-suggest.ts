@@ -0,0 +1,214 @@
+import { Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, FuzzySuggestModal, prepareFuzzySearch, TFile } from 'obsidian';
+import type { EmeraPlugin } from './plugin';
+import { EMERA_INLINE_JSX_PREFIX, EMERA_JSX_LANG_NAME, EMERA_JSX_SHORTHAND_LANG_NAME } from './consts';
+import { findEmeraBlocks } from './processors/markdown-blocks';
+import { getScope } from './scope';
+import { escapeRegExp } from './utils';
+
+export type ComponentSuggestion = {
+    // Full path, e.g. `team.Callout` for components from namespaced library
+    name: string,
+    value: any,
+    source: 'user module' | 'page' | 'emera',
+};
+
+type PropDescription = { name: string, description?: string, default?: any };
+
+// JSX is inserted as tag, shorthand block receives props as attributes of info string
+type SnippetFormat = 'jsx' | 'attributes';
+
+const inlineJsxRegex = new RegExp(`\`${escapeRegExp(EMERA_INLINE_JSX_PREFIX)}[^\`]*<([\\w$.]*)$`);
+const shorthandFenceRegex = new RegExp(`^\\s*(?:\`{3,}|~{3,})${escapeRegExp(EMERA_JSX_SHORTHAND_LANG_NAME)}:([\\w$.]*)$`);
+
+const isComponent = (name: string, value: any) => {
+    const isRenderable = typeof value === 'function' || (!!value && typeof value === 'object' && '$$typeof' in value);
+    return isRenderable && /^[A-Z]/.test(name.split('.').pop() ?? name);
+};
+
+const isNamespace = (value: any) => !!value && Object.getPrototypeOf(value) === Object.prototype;
+
+// Components can describe their props with `propsDescription` (prop name → description, or object with `description`
+// and `default`), otherwise names are taken from `propTypes` and values from `defaultProps`
+export const getComponentProps = (component: any): PropDescription[] => {
+    if (!component || (typeof component !== 'function' && typeof component !== 'object')) return [];
+    const described = component.propsDescription;
+    if (described && typeof described === 'object') {
+        return Object.entries(described).map(([name, description]) => {
+            return typeof description === 'string' ? { name, description } : { name, ...(description as object) };
+        });
+    }
+    const defaults = component.defaultProps ?? {};
+    return Object.keys(component.propTypes ?? {}).map(name => ({ name, default: defaults[name] }));
+};
+
+const formatProp = (prop: PropDescription, format: SnippetFormat) => {
+    if (prop.default === undefined) return format === 'jsx' ? `${prop.name}={}` : `${prop.name}=""`;
+    if (typeof prop.default === 'string') return `${prop.name}=${JSON.stringify(prop.default)}`;
+    const json = JSON.stringify(prop.default);
+    return format === 'jsx' ? `${prop.name}={${json}}` : `${prop.name}=${json}`;
+};
+
+// Cursor is placed into first prop which has to be filled in
+export const buildComponentSnippet = (name: string, component: any, format: SnippetFormat) => {
+    const parts = [name, ...getComponentProps(component).map(prop => formatProp(prop, format))];
+    const text = format === 'jsx' ? `<${parts.join(' ')} />` : parts.join(' ');
+    const placeholder = /=(?:\{\}|"")/.exec(text);
+    return { text, cursor: placeholder ? placeholder.index + 2 : text.length };
+};
+
+const isInsideJsxBlock = (editor: Editor, line: number) => {
+    return findEmeraBlocks(editor.getValue()).some((block) => {
+        return block.type === 'block-jsx' && !block.shortcutComponent && block.lineStart < line && block.lineEnd > line;
+    });
+};
+
+// Everything visible at given line: user module, extras from root and page scopes and exports of blocks above
+const collectCandidates = (plugin: EmeraPlugin, editor: Editor, file: TFile | null, line: number) => {
+    const candidates = new Map<string, ComponentSuggestion>();
+    const rootScope = getScope('root');
+    Object.entries(rootScope.getAll()).forEach(([name, value]) => {
+        candidates.set(name, { name, value, source: Object.hasOwn(plugin.userModule, name) ? 'user module' : 'emera' });
+    });
+
+    if (file) {
+        // Scopes are linked in order of blocks, so scope of last block above cursor sees everything exported before
+        const index = findEmeraBlocks(editor.getValue()).filter(block => block.lineEnd < line).length - 1;
+        const scope = getScope(`page/${file.path}/${index}`) ?? getScope(`page/${file.path}`);
+        Object.entries(scope?.getAll() ?? {}).forEach(([name, value]) => {
+            if (candidates.get(name)?.value === value) return;
+            candidates.set(name, { name, value, source: 'page' });
+        });
+    }
+    return Array.from(candidates.values());
+};
+
+const describeSuggestion = (suggestion: ComponentSuggestion) => {
+    const props = getComponentProps(suggestion.value).map(prop => prop.name);
+    return props.length ? `${suggestion.source} · ${props.join(', ')}` : suggestion.source;
+};
+
+const renderSuggestionContent = (suggestion: ComponentSuggestion, el: HTMLElement) => {
+    const content = el.createDiv({ cls: 'suggestion-content' });
+    content.createDiv({ cls: 'suggestion-title', text: suggestion.name });
+    content.createDiv({ cls: 'suggestion-note', text: describeSuggestion(suggestion) });
+};
+
+// Suggests components after `emera:<`, after `<` inside of `emera` block, and after ```emmd:
+export class EmeraComponentSuggest extends EditorSuggest<ComponentSuggestion> {
+    private format: SnippetFormat = 'jsx';
+
+    constructor(private plugin: EmeraPlugin) {
+        super(plugin.app);
+        this.limit = 50;
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+        const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+        const shorthand = shorthandFenceRegex.exec(before);
+        const tag = shorthand ? null : /<([\w$.]*)$/.exec(before);
+        if (!shorthand && !tag) return null;
+        if (tag && !inlineJsxRegex.test(before) && !isInsideJsxBlock(editor, cursor.line)) return null;
+
+        const query = (shorthand ?? tag)![1];
+        this.format = shorthand ? 'attributes' : 'jsx';
+        return {
+            start: { line: cursor.line, ch: cursor.ch - query.length },
+            end: cursor,
+            query,
+        };
+    }
+
+    getSuggestions(context: EditorSuggestContext): ComponentSuggestion[] {
+        const candidates = collectCandidates(this.plugin, context.editor, context.file, context.start.line);
+        const segments = context.query.split('.');
+        const search = segments.pop() ?? '';
+        let options = candidates;
+        // `team.Ca` suggests members of `team` namespace
+        if (segments.length) {
+            const namespace = segments.reduce((value: any, segment) => value?.[segment], Object.fromEntries(candidates.map(c => [c.name, c.value])));
+            const source = candidates.find(c => c.name === segments[0])?.source ?? 'page';
+            options = isNamespace(namespace)
+                ? Object.entries(namespace).map(([name, value]) => ({ name: [...segments, name].join('.'), value, source }))
+                : [];
+        }
+
+        const fuzzy = prepareFuzzySearch(search);
+        return options
+            .filter(option => isComponent(option.name, option.value) || (this.format === 'jsx' && isNamespace(option.value)))
+            // Right after `<` there is nothing to search by yet, so everything is suggested
+            .map(option => ({ option, match: search ? fuzzy(option.name.split('.').pop()!) : { score: 0, matches: [] } }))
+            .filter(({ match }) => !!match)
+            .sort((a, b) => b.match!.score - a.match!.score)
+            .map(({ option }) => option);
+    }
+
+    renderSuggestion(suggestion: ComponentSuggestion, el: HTMLElement) {
+        renderSuggestionContent(suggestion, el);
+    }
+
+    selectSuggestion(suggestion: ComponentSuggestion) {
+        if (!this.context) return;
+        const { editor, start, end } = this.context;
+        if (this.format === 'jsx' && isNamespace(suggestion.value)) {
+            // Namespace is completed with dot, so its members are suggested right away
+            editor.replaceRange(`${suggestion.name}.`, start, end);
+            editor.setCursor({ line: start.line, ch: start.ch + suggestion.name.length + 1 });
+            return;
+        }
+
+        const snippet = buildComponentSnippet(suggestion.name, suggestion.value, this.format);
+        // Opening bracket is already typed
+        const text = this.format === 'jsx' ? snippet.text.slice(1) : snippet.text;
+        const cursor = this.format === 'jsx' ? snippet.cursor - 1 : snippet.cursor;
+        editor.replaceRange(text, start, end);
+        editor.setCursor({ line: start.line, ch: start.ch + cursor });
+    }
+}
+
+// Lists all components from user module, including ones from namespaced libraries
+export const getUserModuleComponents = (plugin: EmeraPlugin): ComponentSuggestion[] => {
+    return Object.entries(plugin.userModule).flatMap(([name, value]) => {
+        if (isNamespace(value)) {
+            return Object.entries(value).map(([member, memberValue]) => ({ name: `${name}.${member}`, value: memberValue, source: 'user module' as const }));
+        }
+        return [{ name, value, source: 'user module' as const }];
+    }).filter(suggestion => isComponent(suggestion.name, suggestion.value));
+};
+
+export class ComponentPickerModal extends FuzzySuggestModal<ComponentSuggestion> {
+    constructor(private plugin: EmeraPlugin, private editor: Editor) {
+        super(plugin.app);
+        this.setPlaceholder('Pick component to insert');
+    }
+
+    getItems() {
+        return getUserModuleComponents(this.plugin);
+    }
+
+    getItemText(item: ComponentSuggestion) {
+        return item.name;
+    }
+
+    renderSuggestion(item: { item: ComponentSuggestion }, el: HTMLElement) {
+        renderSuggestionContent(item.item, el);
+    }
+
+    onChooseItem(item: ComponentSuggestion) {
+        const { editor } = this;
+        const cursor = editor.getCursor();
+        const snippet = buildComponentSnippet(item.name, item.value, 'jsx');
+        // Inside of `emera` block tag goes right at cursor, otherwise we wrap it into new block
+        if (isInsideJsxBlock(editor, cursor.line)) {
+            editor.replaceRange(snippet.text, cursor);
+            editor.setCursor({ line: cursor.line, ch: cursor.ch + snippet.cursor });
+            return;
+        }
+
+        // Block goes after current line if it isn't empty
+        const lineText = editor.getLine(cursor.line);
+        const prefix = lineText.trim() ? '\n' : '';
+        const position = prefix ? { line: cursor.line, ch: lineText.length } : cursor;
+        editor.replaceRange(`${prefix}\`\`\`${EMERA_JSX_LANG_NAME}\n${snippet.text}\n\`\`\`\n`, position);
+        editor.setCursor({ line: cursor.line + (prefix ? 2 : 1), ch: snippet.cursor });
+    }
+}
@@ -1,24 +1,86 @@
 import { ReactNode, useMemo } from "react";
 import { ErrorBoundary as ReactErrorBoundary } from "react-error-boundary";
+import { useEmeraContext } from "../emera-module/context";
+import { mapErrorStack, MappedStackFrame, openSourceLocation } from "../source-maps";
 
+const formatLocation = (frame: MappedStackFrame) => {
+    return frame.line === null ? frame.path : `${frame.path}:${frame.line}:${frame.column}`;
+};
+
+const CodeFrame = ({ frame }: { frame: MappedStackFrame }) => {
+    const { app } = useEmeraContext();
+    return (<div
+        className="emera-code-frame"
+        title="Open source"
+        onClick={(e) => {
+            e.stopPropagation();
+            openSourceLocation(app, frame.path, frame.line);
+        }}
+    >
+        <div className="emera-code-frame-location">{formatLocation(frame)}</div>
+        {frame.codeFrame && <pre>
+            {frame.codeFrame.map(line => (
+                <div key={line.line} className={line.highlighted ? 'emera-code-frame-line is-highlighted' : 'emera-code-frame-line'}>
+                    <span className="emera-code-frame-gutter">{line.line}</span>
+                    <span>{line.text}</span>
+                </div>
+            ))}
+        </pre>}
+    </div>);
+};
 
 export const ErrorAlert = ({ error }: { error: any }) => {
+    const { app } = useEmeraContext();
+    const frames = useMemo(() => mapErrorStack(error), [error]);
     const stack = useMemo(() => {
         if (error instanceof Error) {
             return error.stack?.replace(/\(data:text\/javascript;charset=utf-8,.+\)(?=\n)/gmi, '(your code)') ?? `${error.name}: ${error.message}`;
         }
         return '';
     }, [error]);
+
+    if (!frames.length) {
+        return <div className="emera-error-boundary">
+            <div>Error happened while rendering Emera component.</div>
+            <div className="emera-error-description">
+                {stack ? <pre>{stack}</pre> : String(error)}
+            </div>
+        </div>;
+    }
+
+    const [topFrame, ...otherFrames] = frames;
     return <div className="emera-error-boundary">
         <div>Error happened while rendering Emera component.</div>
         <div className="emera-error-description">
-            {stack ? <pre>{stack}</pre> : String(error)}
+            <pre>{`${error.name}: ${error.message}`}</pre>
+            <CodeFrame frame={topFrame} />
+            {otherFrames.length > 0 && <ul className="emera-error-frames">
+                {otherFrames.map((frame, index) => (
+                    <li key={index}>
+                        <a onClick={(e) => {
+                            e.stopPropagation();
+                            openSourceLocation(app, frame.path, frame.line);
+                        }}>
+                            {frame.functionName ? `${frame.functionName} (${formatLocation(frame)})` : formatLocation(frame)}
+                        </a>
+                    </li>
+                ))}
+            </ul>}
+            <details>
+                <summary>Full stack trace</summary>
+                <pre>{stack}</pre>
+            </details>
         </div>
     </div>;
 }
 
-export const ErrorBoundary = ({ children }: { children?: ReactNode }) => {
-    return (<ReactErrorBoundary FallbackComponent={ErrorAlert}>
+export const ErrorBoundary = ({ children, onError, resetKeys }: {
+    children?: ReactNode,
+    onError?: (error: unknown) => void,
+    // Error state is cleared when one of these changes, e.g. when new props are pushed into existing root
+    resetKeys?: unknown[],
+}) => {
+    return (<ReactErrorBoundary FallbackComponent={ErrorAlert} onError={onError} resetKeys={resetKeys}>
         {children}
     </ReactErrorBoundary>)
 };
@@ -0,0 +1,55 @@
+import { isValidElement, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { LoadingInline } from "./LoadingInline";
+import { formatPrimitive, isExpandable, ValueInspector } from "./ValueInspector";
+
+const isPromiseLike = (value: any): value is PromiseLike<any> => {
+    return !!value && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function';
+};
+
+const formatError = (error: unknown) => `❗️${String(error)}`;
+
+// Node is moved into our span rather than copied, so it keeps its listeners
+const DomNode = ({ node }: { node: Node }) => {
+    const ref = useRef<HTMLSpanElement>(null);
+    useLayoutEffect(() => {
+        ref.current?.replaceChildren(node);
+    }, [node]);
+    return <span ref={ref} className="emera-inline-js-node" />;
+};
+
+const PromiseResult = ({ promise, onError }: { promise: PromiseLike<any>, onError?: (error: unknown) => void }) => {
+    const [state, setState] = useState<{ status: 'pending' } | { status: 'fulfilled', value: any } | { status: 'rejected', error: unknown }>({ status: 'pending' });
+
+    useEffect(() => {
+        let cancelled = false;
+        setState({ status: 'pending' });
+        promise.then(
+            (value) => !cancelled && setState({ status: 'fulfilled', value }),
+            (error) => {
+                if (cancelled) return;
+                console.error(error);
+                onError?.(error);
+                setState({ status: 'rejected', error });
+            },
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [promise]);
+
+    if (state.status === 'pending') return <LoadingInline />;
+    if (state.status === 'rejected') return <>{formatError(state.error)}</>;
+    return <InlineJsResult value={state.value} onError={onError} />;
+};
+
+// Renders value returned from inline JS according to its type
+export const InlineJsResult = ({ value, onError }: { value: any, onError?: (error: unknown) => void }) => {
+    if (value === null || value === undefined) return null;
+    if (isValidElement(value)) return value;
+    if (value instanceof Node) return <DomNode node={value} />;
+    if (isPromiseLike(value)) return <PromiseResult promise={value} onError={onError} />;
+    if (value instanceof Error) return <>{formatError(value)}</>;
+    if (typeof value === 'string') return <>{value}</>;
+    if (isExpandable(value)) return <ValueInspector value={value} />;
+    return <span className="emera-value">{formatPrimitive(value)}</span>;
+};
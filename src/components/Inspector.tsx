@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useEmeraContext } from "../emera-module/context";
+import { useActiveFile } from "../emera-module/hooks";
+import type { BlockRecord } from "../block-registry";
+import type { BuildReport } from "../bundler";
+import type { ScopeNode } from "../scope";
+import { mapErrorStack, openSourceLocation } from "../source-maps";
+import { describeValue } from "./ValueInspector";
+
+const formatTime = (time: number | null) => time === null ? '—' : `${time.toFixed(1)} ms`;
+
+const formatError = (error: unknown) => {
+    if (error instanceof Error) return `${error.name}: ${error.message}`;
+    return String(error);
+};
+
+// Scope proxy doesn't trap ownKeys, so we get only keys set directly on this scope
+const getOwnKeys = (scope: ScopeNode) => Object.keys(scope.scope);
+
+const ValuesList = ({ values }: { values: Record<string, any> }) => {
+    const keys = Object.keys(values).sort();
+    if (keys.length === 0) return <div className="emera-inspector-empty">Nothing here</div>;
+    return (<ul className="emera-inspector-values">
+        {keys.map(key => {
+            let value;
+            try {
+                value = describeValue(values[key]);
+            } catch (err) {
+                value = '(unavailable)';
+            }
+            return (<li key={key}><code>{key}</code> <span className="emera-inspector-muted">{value}</span></li>);
+        })}
+    </ul>);
+};
+
+const BlockCard = ({ record }: { record: BlockRecord }) => {
+    const { app } = useEmeraContext();
+    const frame = record.error ? mapErrorStack(record.error)[0] : undefined;
+    return (<div className={record.error ? 'emera-inspector-block has-error' : 'emera-inspector-block'}>
+        <div className="emera-inspector-block-header">
+            <span className="emera-inspector-badge">{record.type}</span>
+            <span>#{record.index}</span>
+            {record.line !== null && <a onClick={() => record.file && openSourceLocation(app, record.file, record.line! + 1)}>
+                line {record.line + 1}
+            </a>}
+            <span className="emera-inspector-muted">{record.mode}</span>
+        </div>
+        <table className="emera-inspector-table">
+            <tbody>
+                <tr><td>Scope</td><td><code>{record.id}</code></td></tr>
+                <tr><td>Reads from</td><td><code>{record.readScopeId}</code></td></tr>
+                <tr><td>Transpile</td><td>{formatTime(record.transpileTime)}</td></tr>
+                <tr><td>Render</td><td>{formatTime(record.renderTime)}</td></tr>
+                {record.type === 'block-js' && <tr>
+                    <td>Exports</td>
+                    <td>{record.exports.length ? record.exports.map(key => <code key={key}>{key} </code>) : '—'}</td>
+                </tr>}
+            </tbody>
+        </table>
+        {!!record.error && <div className="emera-inspector-error">
+            <div>{formatError(record.error)}</div>
+            {frame && <a onClick={() => openSourceLocation(app, frame.path, frame.line)}>
+                {frame.line === null ? frame.path : `${frame.path}:${frame.line}`}
+            </a>}
+        </div>}
+        <details>
+            <summary>Source</summary>
+            <pre>{record.source}</pre>
+        </details>
+    </div>);
+};
+
+const BuildReports = ({ reports }: { reports: BuildReport[] }) => {
+    if (reports.length === 0) return <div className="emera-inspector-empty">User module wasn't built yet</div>;
+    return (<ul className="emera-inspector-values">
+        {reports.map(report => (<li key={report.entry}>
+            <details>
+                <summary>
+                    <code>{report.entry}</code>
+                    <span className="emera-inspector-muted"> rebuilt {report.rebuilt.length} of {report.modules} modules in {formatTime(report.duration)}</span>
+                </summary>
+                <ul>
+                    {report.rebuilt.map(id => <li key={id}><code>{id}</code></li>)}
+                </ul>
+            </details>
+        </li>))}
+    </ul>);
+};
+
+const ScopeTree = ({ scope }: { scope: ScopeNode }) => {
+    const keys = getOwnKeys(scope);
+    return (<li>
+        <details open={scope.children.length > 0 && scope.children.length < 10}>
+            <summary>
+                <code>{scope.id}</code>
+                <span className="emera-inspector-muted"> {keys.length} {keys.length === 1 ? 'value' : 'values'}{scope.isBlocked ? ', blocked' : ''}</span>
+            </summary>
+            {scope.id !== 'root' && keys.length > 0 && <ValuesList values={Object.fromEntries(keys.map(key => [key, scope.get(key)]))} />}
+            {scope.children.length > 0 && <ul className="emera-inspector-tree">
+                {scope.children.map(child => <ScopeTree key={child.id} scope={child} />)}
+            </ul>}
+        </details>
+    </li>);
+};
+
+export const Inspector = () => {
+    const { plugin } = useEmeraContext();
+    const file = useActiveFile();
+    const [, setVersion] = useState(0);
+
+    useEffect(() => {
+        const rerender = () => setVersion(v => v + 1);
+        const unsubscribers = [
+            plugin.blockRegistry.onChange(rerender),
+            plugin.rootScope.onChange(rerender),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [plugin]);
+
+    const records = file ? plugin.blockRegistry.getForFile(file.path) : [];
+
+    return (<div className="emera-inspector">
+        <div className="emera-inspector-toolbar">
+            <button onClick={() => setVersion(v => v + 1)}>Refresh</button>
+        </div>
+
+        <h4>Blocks {file && <span className="emera-inspector-muted">in {file.basename}</span>}</h4>
+        {records.length === 0
+            ? <div className="emera-inspector-empty">{file ? 'No Emera blocks rendered in this note' : 'No active note'}</div>
+            : records.map(record => <BlockCard key={record.id} record={record} />)}
+
+        <h4>User module</h4>
+        <BuildReports reports={plugin.buildReports} />
+        <ValuesList values={plugin.userModule} />
+
+        <h4>Scopes</h4>
+        <ul className="emera-inspector-tree">
+            <ScopeTree scope={plugin.rootScope} />
+        </ul>
+    </div>);
+};
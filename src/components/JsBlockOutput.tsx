@@ -0,0 +1,16 @@
+import { ValueInspector } from "./ValueInspector";
+
+export const JsBlockOutput = ({ exports, name }: { exports: Record<string, any>, name?: string }) => {
+    const keys = Object.keys(exports);
+    return (<div className="emera-js-block-output">
+        <div className="emera-js-block-output-header">
+            <span>{'</>'}</span>
+            <span>{name ? `Exports of ${name}` : 'Exports'}</span>
+        </div>
+        {keys.length === 0
+            ? <div className="emera-js-block-output-empty">Block doesn't export anything</div>
+            : <ul>
+                {keys.map(key => <li key={key}><ValueInspector name={key} value={exports[key]} /></li>)}
+            </ul>}
+    </div>);
+};
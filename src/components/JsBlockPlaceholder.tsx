@@ -1,6 +1,6 @@
-export const JsBlockPlaceholder = () => {
+export const JsBlockPlaceholder = ({ name }: { name?: string }) => {
     return (<div className="emera-js-block-placeholder">
         <span>{'</>'}</span>
-        <span>Emera JS block</span>
+        <span>{name ? `Emera JS block ${name}` : 'Emera JS block'}</span>
     </div>)
 }
@@ -0,0 +1,46 @@
+import { MouseEvent, useState } from "react";
+
+type LockedBlockProps = {
+    inline: boolean,
+    source: string,
+    onRunOnce: () => Promise<void>,
+    // Not available for blocks that don't belong to any note
+    onTrustNote?: () => Promise<void>,
+};
+
+export const LockedBlock = ({ inline, source, onRunOnce, onTrustNote }: LockedBlockProps) => {
+    const [pending, setPending] = useState(false);
+
+    const handle = (action: () => Promise<void>) => async (e: MouseEvent) => {
+        // Widget would move cursor into the block otherwise
+        e.preventDefault();
+        e.stopPropagation();
+        setPending(true);
+        try {
+            await action();
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const buttons = (<>
+        <button disabled={pending} onClick={handle(onRunOnce)}>Run once</button>
+        {onTrustNote && <button disabled={pending} onClick={handle(onTrustNote)}>Always trust this note</button>}
+    </>);
+
+    if (inline) {
+        return (<span className="emera-locked-inline" title={source}>
+            <span>🔒</span>
+            {buttons}
+        </span>);
+    }
+
+    return (<div className="emera-locked-block">
+        <div className="emera-locked-block-header">
+            <span>🔒</span>
+            <span>This block wasn't approved to run</span>
+        </div>
+        <pre>{source}</pre>
+        <div className="emera-locked-block-actions">{buttons}</div>
+    </div>);
+};
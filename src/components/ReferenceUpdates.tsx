@@ -0,0 +1,115 @@
+import { useMemo, useState } from "react";
+import type { ReferenceUpdate } from "../rename-references";
+
+type DiffLine = {
+    kind: 'same' | 'added' | 'removed',
+    text: string,
+};
+
+// Line-based diff using longest common subsequence, Emera blocks are small so quadratic complexity is fine
+const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            result.push({ kind: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ kind: 'removed', text: a[i++] });
+        } else {
+            result.push({ kind: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) result.push({ kind: 'removed', text: a[i++] });
+    while (j < b.length) result.push({ kind: 'added', text: b[j++] });
+    return result;
+};
+
+const diffMarkers = {
+    same: ' ',
+    added: '+',
+    removed: '-',
+};
+
+const UpdateDiff = ({ update }: { update: ReferenceUpdate }) => {
+    const lines = useMemo(() => diffLines(update.before, update.after), [update]);
+    return (<pre className="emera-diff">
+        {lines.map((line, index) => (
+            <div key={index} className={`emera-diff-line emera-diff-${line.kind}`}>
+                {diffMarkers[line.kind]} {line.text}
+            </div>
+        ))}
+    </pre>);
+};
+
+export const ReferenceUpdates = ({ renames, updates, onApply, onCancel }: {
+    renames: { oldPath: string, newPath: string }[],
+    updates: ReferenceUpdate[],
+    onApply: (accepted: ReferenceUpdate[]) => Promise<void>,
+    onCancel: VoidFunction,
+}) => {
+    const [accepted, setAccepted] = useState(() => new Set(updates.map(u => u.id)));
+    const [applying, setApplying] = useState(false);
+
+    const toggle = (id: string) => {
+        setAccepted((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const apply = async () => {
+        setApplying(true);
+        try {
+            await onApply(updates.filter(u => accepted.has(u.id)));
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    return (<div className="emera-reference-updates">
+        {renames.length === 1 ? (
+            <p>
+                <code>{renames[0].oldPath}</code> was renamed to <code>{renames[0].newPath}</code>. These Emera blocks might reference it, select which of them should be updated.
+            </p>
+        ) : (<>
+            <p>Several files were renamed. These Emera blocks might reference them, select which of them should be updated.</p>
+            <ul>
+                {renames.map(({ oldPath, newPath }) => (
+                    <li key={oldPath}><code>{oldPath}</code> → <code>{newPath}</code></li>
+                ))}
+            </ul>
+        </>)}
+        {updates.map((update) => (
+            <div key={update.id} className="emera-reference-update">
+                <label className="emera-reference-update-header">
+                    <input
+                        type="checkbox"
+                        checked={accepted.has(update.id)}
+                        onChange={() => toggle(update.id)}
+                    />
+                    <span>{update.file.path}</span>
+                </label>
+                <UpdateDiff update={update} />
+            </div>
+        ))}
+        <div className="modal-button-container">
+            <button className="mod-cta" disabled={applying || accepted.size === 0} onClick={apply}>
+                Update {accepted.size} {accepted.size === 1 ? 'block' : 'blocks'}
+            </button>
+            <button onClick={onCancel}>Skip</button>
+        </div>
+    </div>);
+};
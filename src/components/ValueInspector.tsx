@@ -0,0 +1,95 @@
+import { MouseEvent, useState } from "react";
+
+// Nested values are rendered only when expanded, but we still cap them, as user might return something huge
+const MAX_ENTRIES = 100;
+const MAX_PREVIEW_ENTRIES = 5;
+
+export const describeValue = (value: any) => {
+    if (value === null) return 'null';
+    if (typeof value === 'function') {
+        return /^[A-Z]/.test(value.name) ? `component ${value.name}` : `function ${value.name || '(anonymous)'}`;
+    }
+    if (Array.isArray(value)) return `array(${value.length})`;
+    if (typeof value === 'object') return value.constructor?.name && value.constructor.name !== 'Object' ? value.constructor.name : 'object';
+    if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+    return String(value);
+};
+
+export const isExpandable = (value: any) => typeof value === 'object' && value !== null && !(value instanceof Date);
+
+export const formatPrimitive = (value: any): string => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toLocaleString();
+    if (typeof value === 'number') return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+    if (typeof value === 'bigint') return `${value.toLocaleString()}n`;
+    if (typeof value === 'function') return `ƒ ${value.name || '(anonymous)'}()`;
+    if (typeof value === 'symbol') return value.toString();
+    return String(value);
+};
+
+const getEntries = (value: any): [string, any][] => {
+    if (value instanceof Map) return Array.from(value.entries()).map(([k, v]) => [formatPrimitive(k), v]);
+    if (value instanceof Set) return Array.from(value.values()).map((v, i) => [String(i), v]);
+    return Object.keys(value).map(key => {
+        try {
+            return [key, value[key]];
+        } catch (err) {
+            return [key, err];
+        }
+    });
+};
+
+const previewNested = (value: any) => {
+    if (isExpandable(value)) return Array.isArray(value) ? `[…]` : `{…}`;
+    if (typeof value === 'string') return JSON.stringify(value);
+    return formatPrimitive(value);
+};
+
+// Short one-line preview similar to the one in devtools, e.g. [1, 2, 3] or {a: 1, b: "text"}
+export const previewValue = (value: any) => {
+    const entries = getEntries(value);
+    const shown = entries.slice(0, MAX_PREVIEW_ENTRIES);
+    const rest = entries.length > shown.length ? ', …' : '';
+    if (Array.isArray(value) || value instanceof Set) {
+        const prefix = Array.isArray(value) ? '' : `Set(${value.size}) `;
+        return `${prefix}[${shown.map(([, v]) => previewNested(v)).join(', ')}${rest}]`;
+    }
+    const prefix = value.constructor?.name && value.constructor.name !== 'Object' ? `${value.constructor.name} ` : '';
+    return `${prefix}{${shown.map(([k, v]) => `${k}: ${previewNested(v)}`).join(', ')}${rest}}`;
+};
+
+const PrimitiveValue = ({ value }: { value: any }) => {
+    const className = `emera-value emera-value-${value instanceof Date ? 'date' : typeof value}`;
+    return (<span className={className}>{typeof value === 'string' ? JSON.stringify(value) : formatPrimitive(value)}</span>);
+};
+
+export const ValueInspector = ({ value, name }: { value: any, name?: string }) => {
+    const [open, setOpen] = useState(false);
+
+    if (!isExpandable(value)) {
+        return (<span className="emera-value-inspector">
+            {name !== undefined && <span className="emera-value-key">{name}: </span>}
+            <PrimitiveValue value={value} />
+        </span>);
+    }
+
+    const toggle = (e: MouseEvent) => {
+        // Details are toggled manually, as editor widget prevents default action of clicks
+        e.preventDefault();
+        e.stopPropagation();
+        setOpen(!open);
+    };
+
+    const entries = open ? getEntries(value) : [];
+    return (<details className="emera-value-inspector" open={open}>
+        <summary onClick={toggle}>
+            {name !== undefined && <span className="emera-value-key">{name}: </span>}
+            <span className="emera-value-preview">{previewValue(value)}</span>
+        </summary>
+        {open && <ul>
+            {entries.slice(0, MAX_ENTRIES).map(([key, child], index) => (
+                <li key={index}><ValueInspector name={key} value={child} /></li>
+            ))}
+            {entries.length > MAX_ENTRIES && <li className="emera-value-more">…and {entries.length - MAX_ENTRIES} more</li>}
+        </ul>}
+    </details>);
+};
@@ -1,9 +1,15 @@
 export const EMERA_MODULES = '_emeraModules';
 export const EMERA_ROOT_SCOPE = '_emeraRootScope';
 export const EMERA_GET_SCOPE = '_emeraGetScope';
+export const EMERA_STYLES = '_emeraStyles';
+export const EMERA_NOTE_MODULES = '_emeraNoteModules';
+export const EMERA_REMOTE_MODULES = '_emeraRemoteModules';
 
 export const EMERA_JSX_LANG_NAME = 'emera';
 export const EMERA_JS_LANG_NAME = 'emjs';
 export const EMERA_INLINE_JS_PREFIX = `${EMERA_JS_LANG_NAME}:`;
 export const EMERA_INLINE_JSX_PREFIX = `${EMERA_JSX_LANG_NAME}:`;
 export const EMERA_JSX_SHORTHAND_LANG_NAME = 'emmd';
+export const EMERA_NOTE_IMPORT_PREFIX = 'note:';
+
+export const EMERA_INSPECTOR_VIEW_TYPE = 'emera-inspector';
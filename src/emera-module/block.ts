@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from "react";
+import { App, MarkdownView, TFile } from "obsidian";
+import { useEmeraContext } from "./context";
+
+export type EmeraBlockInfo = {
+    file: TFile,
+    // Position of block among Emera code blocks (not counting inline ones) of the note
+    index: number,
+    // Value of `id` attribute, blocks without it get one once they store data
+    id: string | null,
+    // Zero-based lines of opening and closing fence
+    lineStart: number,
+    lineEnd: number,
+    source: string,
+};
+
+type SetStateAction<T> = T | ((prev: T) => T);
+
+const isOpeningFence = (line: string | undefined) => !!line && /^ {0,3}(`{3,}|~{3,})/.test(line);
+const isClosingFence = (line: string | undefined) => !!line && /^ {0,3}(`{3,}|~{3,})\s*$/.test(line);
+
+const assertBlockLocation = (lines: (string | undefined)[], block: EmeraBlockInfo) => {
+    if (!isOpeningFence(lines[0]) || !isClosingFence(lines[1])) {
+        throw new Error(`Emera block in ${block.file.path} was moved or changed, so it can't be updated`);
+    }
+};
+
+const getSourceEditor = (app: App, file: TFile) => {
+    const view = app.workspace.getLeavesOfType('markdown')
+        .map(leaf => leaf.view)
+        .find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === file.path && view.getMode() === 'source');
+    return view?.editor ?? null;
+};
+
+// Replaces code between block's fences. If note is opened in editor, we change it through editor so change
+// ends up in undo history, otherwise file is modified directly
+export const updateBlockSource = async (app: App, block: EmeraBlockInfo, source: string) => {
+    const replacement = source === '' ? '' : `${source.replace(/\n$/, '')}\n`;
+    const editor = getSourceEditor(app, block.file);
+    if (editor) {
+        assertBlockLocation([editor.getLine(block.lineStart), editor.getLine(block.lineEnd)], block);
+        editor.replaceRange(replacement, { line: block.lineStart + 1, ch: 0 }, { line: block.lineEnd, ch: 0 });
+    } else {
+        await app.vault.process(block.file, (text) => {
+            const lines = text.split('\n');
+            assertBlockLocation([lines[block.lineStart], lines[block.lineEnd]], block);
+            const updated = replacement === '' ? [] : replacement.slice(0, -1).split('\n');
+            lines.splice(block.lineStart + 1, block.lineEnd - block.lineStart - 1, ...updated);
+            return lines.join('\n');
+        });
+    }
+
+    // Block will be re-rendered with fresh location, but until then we keep it up to date ourselves
+    // so consecutive updates won't write into stale lines
+    block.lineEnd = block.lineStart + 1 + (replacement === '' ? 0 : replacement.split('\n').length - 1);
+    block.source = replacement.replace(/\n$/, '');
+};
+
+// Appends `id` attribute to info string of block, so it can be recognized after blocks around it change
+export const writeBlockId = async (app: App, block: EmeraBlockInfo, id: string) => {
+    const withId = (line: string) => `${line.replace(/\s+$/, '')} id=${id}`;
+    const editor = getSourceEditor(app, block.file);
+    if (editor) {
+        const line = editor.getLine(block.lineStart);
+        assertBlockLocation([line, editor.getLine(block.lineEnd)], block);
+        editor.replaceRange(withId(line), { line: block.lineStart, ch: 0 }, { line: block.lineStart, ch: line.length });
+    } else {
+        await app.vault.process(block.file, (text) => {
+            const lines = text.split('\n');
+            assertBlockLocation([lines[block.lineStart], lines[block.lineEnd]], block);
+            lines[block.lineStart] = withId(lines[block.lineStart]);
+            return lines.join('\n');
+        });
+    }
+    block.id = id;
+};
+
+const useBlock = (hookName: string) => {
+    const { block } = useEmeraContext();
+    if (!block) {
+        throw new Error(`${hookName} can be used only in components rendered from Emera code block`);
+    }
+    return block;
+};
+
+export const useBlockSource = (): [string, (source: SetStateAction<string>) => Promise<void>] => {
+    const { app } = useEmeraContext();
+    const block = useBlock('useBlockSource');
+    const [source, setSource] = useState(block.source);
+
+    useEffect(() => {
+        setSource(block.source);
+    }, [block, block.source]);
+
+    const updateSource = async (action: SetStateAction<string>) => {
+        const next = typeof action === 'function' ? action(block.source) : action;
+        setSource(next);
+        await updateBlockSource(app, block, next);
+    };
+
+    return [source, updateSource];
+};
+
+export const useBlockData = <T,>(defaultValue: T): [T, (value: SetStateAction<T>) => Promise<void>] => {
+    const [source, setSource] = useBlockSource();
+
+    // Invalid JSON is shown as block's error rather than replaced with default value, so it isn't overwritten
+    // on next update and user can fix it
+    const data = useMemo(() => {
+        if (!source.trim()) return defaultValue;
+        try {
+            return JSON.parse(source) as T;
+        } catch (err) {
+            throw new Error(`Emera block contains invalid JSON: ${err instanceof Error ? err.message : err}`);
+        }
+    }, [source]);
+
+    const setData = (action: SetStateAction<T>) => {
+        const next = typeof action === 'function' ? (action as (prev: T) => T)(data) : action;
+        return setSource(JSON.stringify(next, null, 4));
+    };
+
+    return [data, setData];
+};
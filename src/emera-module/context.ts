@@ -2,9 +2,12 @@ import { App, TFile } from "obsidian";
 import type { EmeraPlugin } from '../plugin';
 import { createStrictContext } from "./utils";
 import type { EmeraStorage } from "./storage";
+import type { EmeraBlockInfo } from "./block";
 
 export type EmeraContextType = {
     file: TFile | null,
+    // Location of code block component was rendered from, null for inline elements
+    block: EmeraBlockInfo | null,
     frontmatter: Record<string, any> | null | undefined,
     plugin: EmeraPlugin,
     storage: EmeraStorage,
@@ -0,0 +1,188 @@
+import { DependencyList, useEffect, useMemo, useRef, useState } from "react";
+import { App, CachedMetadata, EventRef, Events, TAbstractFile, TFile } from "obsidian";
+import { useEmeraContext } from "./context";
+import { createQuery, Query, QueryPage, QueryTask, TaskQuery } from "./query";
+
+type FileSpecifier = TFile | string | null | undefined;
+
+const getFilePath = (file: FileSpecifier) => {
+    if (!file) return null;
+    return typeof file === 'string' ? file : file.path;
+};
+
+// Returns counter which is incremented each time one of subscribed events fires, use it as
+// dependency to recompute data derived from Obsidian state
+const useEventsVersion = (subscribe: (app: App, notify: VoidFunction) => [Events, EventRef][], deps: DependencyList) => {
+    const { app } = useEmeraContext();
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        const notify = () => setVersion(v => v + 1);
+        const refs = subscribe(app, notify);
+        return () => refs.forEach(([events, ref]) => events.offref(ref));
+    }, [app, ...deps]);
+
+    return version;
+};
+
+const isSameFile = (path: string | null, file: TAbstractFile, oldPath?: string) => {
+    return !!path && (file.path === path || oldPath === path);
+};
+
+export const useActiveFile = (): TFile | null => {
+    const { app } = useEmeraContext();
+    const version = useEventsVersion((app, notify) => [
+        [app.workspace, app.workspace.on('file-open', notify)],
+        [app.vault, app.vault.on('rename', notify)],
+    ], []);
+
+    return useMemo(() => app.workspace.getActiveFile(), [app, version]);
+};
+
+export const useFile = (path: string | null | undefined): TFile | null => {
+    const { app } = useEmeraContext();
+    const normalizedPath = path ?? null;
+    const version = useEventsVersion((app, notify) => {
+        const onChange = (file: TAbstractFile, oldPath?: string) => {
+            if (isSameFile(normalizedPath, file, oldPath)) notify();
+        };
+        return [
+            [app.vault, app.vault.on('create', onChange)],
+            [app.vault, app.vault.on('modify', onChange)],
+            [app.vault, app.vault.on('delete', onChange)],
+            [app.vault, app.vault.on('rename', onChange)],
+        ];
+    }, [normalizedPath]);
+
+    return useMemo(() => normalizedPath ? app.vault.getFileByPath(normalizedPath) : null, [app, normalizedPath, version]);
+};
+
+export const useFileContent = (file: FileSpecifier): string | null => {
+    const { app } = useEmeraContext();
+    const path = getFilePath(file);
+    const [content, setContent] = useState<string | null>(null);
+    const version = useEventsVersion((app, notify) => {
+        const onChange = (file: TAbstractFile, oldPath?: string) => {
+            if (isSameFile(path, file, oldPath)) notify();
+        };
+        return [
+            [app.vault, app.vault.on('create', onChange)],
+            [app.vault, app.vault.on('modify', onChange)],
+            [app.vault, app.vault.on('delete', onChange)],
+            [app.vault, app.vault.on('rename', onChange)],
+        ];
+    }, [path]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const target = path ? app.vault.getFileByPath(path) : null;
+        if (!target) {
+            setContent(null);
+            return;
+        }
+
+        app.vault.cachedRead(target).then((text) => {
+            if (!cancelled) setContent(text);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [app, path, version]);
+
+    return content;
+};
+
+export const useMetadataCache = (file: FileSpecifier): CachedMetadata | null => {
+    const { app } = useEmeraContext();
+    const path = getFilePath(file);
+    const version = useEventsVersion((app, notify) => [
+        [app.metadataCache, app.metadataCache.on('changed', (file) => {
+            if (isSameFile(path, file)) notify();
+        })],
+        [app.vault, app.vault.on('delete', (file) => {
+            if (isSameFile(path, file)) notify();
+        })],
+    ], [path]);
+
+    return useMemo(() => {
+        const target = path ? app.vault.getFileByPath(path) : null;
+        return target ? app.metadataCache.getFileCache(target) : null;
+    }, [app, path, version]);
+};
+
+export const useFrontmatter = (): Record<string, any> | undefined => {
+    const { file } = useEmeraContext();
+    return useMetadataCache(file)?.frontmatter;
+};
+
+export const useBacklinks = (file: FileSpecifier): TFile[] => {
+    const { app } = useEmeraContext();
+    const path = getFilePath(file);
+    const version = useEventsVersion((app, notify) => [
+        [app.metadataCache, app.metadataCache.on('resolve', notify)],
+        [app.vault, app.vault.on('delete', notify)],
+        [app.vault, app.vault.on('rename', notify)],
+    ], []);
+
+    return useMemo(() => {
+        if (!path) return [];
+        return Object.entries(app.metadataCache.resolvedLinks)
+            .filter(([source, links]) => source !== path && Object.hasOwn(links, path))
+            .map(([source]) => app.vault.getFileByPath(source))
+            .filter((source): source is TFile => !!source);
+    }, [app, path, version]);
+};
+
+export const useVaultFiles = (filter?: (file: TFile) => boolean): TFile[] => {
+    const { app } = useEmeraContext();
+    const version = useEventsVersion((app, notify) => [
+        [app.vault, app.vault.on('create', notify)],
+        [app.vault, app.vault.on('delete', notify)],
+        [app.vault, app.vault.on('rename', notify)],
+        [app.metadataCache, app.metadataCache.on('changed', notify)],
+    ], []);
+
+    return useMemo(() => {
+        const files = app.vault.getFiles();
+        return filter ? files.filter(filter) : files;
+    }, [app, version, filter]);
+};
+
+// Runs query built by callback and re-runs it when notes which match it (or matched it before) change.
+// Callback is called again only when deps change
+export function useQuery<F extends Record<string, any> = Record<string, any>>(build: (query: Query<F>) => Query<F>, deps?: DependencyList): QueryPage<F>[];
+export function useQuery(build: (query: Query) => TaskQuery, deps?: DependencyList): QueryTask[];
+export function useQuery(build: (query: Query) => Query | TaskQuery, deps: DependencyList = []): (QueryPage | QueryTask)[] {
+    const { app } = useEmeraContext();
+    const query = useMemo(() => build(createQuery(app)), [app, ...deps]);
+    const resultPaths = useRef(new Set<string>());
+    const version = useEventsVersion((app, notify) => {
+        const onChange = (file: TAbstractFile, oldPath?: string) => {
+            const wasMatched = resultPaths.current.has(file.path) || (!!oldPath && resultPaths.current.has(oldPath));
+            if (wasMatched || (file instanceof TFile && query.matches(file))) notify();
+        };
+        return [
+            [app.metadataCache, app.metadataCache.on('changed', onChange)],
+            [app.metadataCache, app.metadataCache.on('deleted', (file) => onChange(file))],
+            [app.vault, app.vault.on('rename', onChange)],
+        ];
+    }, [query]);
+
+    const pages = useMemo(() => query instanceof Query ? query.run() : null, [query, version]);
+    // Tasks are read from notes, so they're loaded asynchronously
+    const [tasks, setTasks] = useState<QueryTask[]>([]);
+    useEffect(() => {
+        if (!(query instanceof TaskQuery)) return;
+        let cancelled = false;
+        query.run().then((tasks) => {
+            if (!cancelled) setTasks(tasks);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [query, version]);
+
+    const result = pages ?? tasks;
+    resultPaths.current = new Set(result.map(item => item.file.path));
+    return result;
+}
@@ -1,9 +1,32 @@
 import { Markdown } from "./Markdown";
 import { useEmeraContext } from "./context";
-import { useStorage } from "./storage";
+import { useBlockStorage, useNoteStorage, useStorage } from "./storage";
+import { useBlockData, useBlockSource } from "./block";
+import {
+    useActiveFile,
+    useBacklinks,
+    useFile,
+    useFileContent,
+    useFrontmatter,
+    useMetadataCache,
+    useQuery,
+    useVaultFiles,
+} from "./hooks";
 
 export {
     Markdown,
     useEmeraContext,
     useStorage,
+    useNoteStorage,
+    useBlockStorage,
+    useBlockData,
+    useBlockSource,
+    useActiveFile,
+    useBacklinks,
+    useFile,
+    useFileContent,
+    useFrontmatter,
+    useMetadataCache,
+    useQuery,
+    useVaultFiles,
 };
@@ -0,0 +1,232 @@
+import { App, getAllTags, TFile } from "obsidian";
+
+export type QueryPage<F extends Record<string, any> = Record<string, any>> = {
+    file: TFile,
+    path: string,
+    name: string,
+    folder: string,
+    // With leading #, both from frontmatter and note body
+    tags: string[],
+    frontmatter: F,
+    // Paths of notes this note links to, only resolved links are included
+    links: string[],
+    ctime: number,
+    mtime: number,
+};
+
+export type QueryTask = {
+    file: TFile,
+    text: string,
+    // Character inside of brackets, e.g. ' ' or 'x'
+    status: string,
+    completed: boolean,
+    // Zero-based line of task in note
+    line: number,
+};
+
+export type QueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'exists';
+
+type FileSpecifier = TFile | string;
+
+const getPath = (file: FileSpecifier) => typeof file === 'string' ? file : file.path;
+
+// Frontmatter fields might be nested, e.g. `project.status`
+const getField = (page: QueryPage, field: string) => {
+    if (field in page && field !== 'frontmatter') return (page as any)[field];
+    return field.split('.').reduce((value: any, segment) => value?.[segment], page.frontmatter);
+};
+
+const compareValues = (a: any, b: any) => {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return 1;
+    if (b === undefined || b === null) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    // Dates in frontmatter are strings in ISO format, so they're sorted correctly as strings
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const matchesOperator = (actual: any, operator: QueryOperator, expected: any) => {
+    switch (operator) {
+        case '=': return Array.isArray(actual) ? actual.includes(expected) : actual === expected;
+        case '!=': return Array.isArray(actual) ? !actual.includes(expected) : actual !== expected;
+        case '>': return actual !== undefined && actual !== null && compareValues(actual, expected) > 0;
+        case '>=': return actual !== undefined && actual !== null && compareValues(actual, expected) >= 0;
+        case '<': return actual !== undefined && actual !== null && compareValues(actual, expected) < 0;
+        case '<=': return actual !== undefined && actual !== null && compareValues(actual, expected) <= 0;
+        case 'contains': {
+            if (Array.isArray(actual)) return actual.includes(expected);
+            return typeof actual === 'string' && actual.toLowerCase().includes(String(expected).toLowerCase());
+        }
+        case 'exists': return (actual !== undefined && actual !== null) === (expected ?? true);
+    }
+};
+
+const hasTag = (tags: string[], tag: string) => {
+    const normalized = (tag.startsWith('#') ? tag : `#${tag}`).toLowerCase();
+    // Nested tags match their parent, e.g. #project/emera matches #project
+    return tags.some(t => {
+        const lower = t.toLowerCase();
+        return lower === normalized || lower.startsWith(`${normalized}/`);
+    });
+};
+
+type PageFilter = (page: QueryPage) => boolean;
+
+type QueryState = {
+    filters: PageFilter[],
+    sort: { compare: (a: QueryPage, b: QueryPage) => number }[],
+    limit: number | null,
+};
+
+// Immutable query builder, each method returns new query, so partial queries can be reused
+export class Query<F extends Record<string, any> = Record<string, any>> {
+    constructor(private app: App, private state: QueryState = { filters: [], sort: [], limit: null }) { }
+
+    private with(patch: Partial<QueryState>) {
+        return new Query<F>(this.app, { ...this.state, ...patch });
+    }
+
+    private filter(filter: PageFilter) {
+        return this.with({ filters: [...this.state.filters, filter] });
+    }
+
+    // Notes inside of folder, including subfolders
+    from(folder: string) {
+        const prefix = folder.replace(/^\/+|\/+$/g, '');
+        return this.filter(page => !prefix || page.path.startsWith(`${prefix}/`));
+    }
+
+    withTag(tag: string) {
+        return this.filter(page => hasTag(page.tags, tag));
+    }
+
+    withoutTag(tag: string) {
+        return this.filter(page => !hasTag(page.tags, tag));
+    }
+
+    // `where('status', 'done')`, `where('rating', '>=', 4)` or `where(page => ...)`. Field is looked up in page
+    // itself (e.g. `name`, `mtime`), and in frontmatter otherwise
+    where(predicate: (page: QueryPage<F>) => boolean): Query<F>;
+    where(field: string, value: any): Query<F>;
+    where(field: string, operator: QueryOperator, value?: any): Query<F>;
+    where(fieldOrPredicate: string | ((page: QueryPage<F>) => boolean), ...args: any[]): Query<F> {
+        if (typeof fieldOrPredicate === 'function') return this.filter(fieldOrPredicate as PageFilter);
+        const [operator, value]: [QueryOperator, any] = args.length === 1 ? ['=', args[0]] : [args[0], args[1]];
+        return this.filter(page => matchesOperator(getField(page, fieldOrPredicate), operator, value));
+    }
+
+    linksTo(file: FileSpecifier) {
+        const path = getPath(file);
+        return this.filter(page => page.links.includes(path));
+    }
+
+    linkedFrom(file: FileSpecifier) {
+        const path = getPath(file);
+        return this.filter(page => Object.hasOwn(this.app.metadataCache.resolvedLinks[path] ?? {}, page.path));
+    }
+
+    sortBy(fieldOrGetter: string | ((page: QueryPage<F>) => any), direction: 'asc' | 'desc' = 'asc') {
+        const get = typeof fieldOrGetter === 'function'
+            ? fieldOrGetter as (page: QueryPage) => any
+            : (page: QueryPage) => getField(page, fieldOrGetter);
+        const sign = direction === 'asc' ? 1 : -1;
+        return this.with({ sort: [...this.state.sort, { compare: (a, b) => sign * compareValues(get(a), get(b)) }] });
+    }
+
+    limit(count: number) {
+        return this.with({ limit: count });
+    }
+
+    getPage(file: TFile): QueryPage<F> {
+        const cache = this.app.metadataCache.getFileCache(file);
+        return {
+            file,
+            path: file.path,
+            name: file.basename,
+            folder: file.parent?.path ?? '',
+            tags: cache ? Array.from(new Set(getAllTags(cache) ?? [])) : [],
+            frontmatter: (cache?.frontmatter ?? {}) as F,
+            links: Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {}),
+            ctime: file.stat.ctime,
+            mtime: file.stat.mtime,
+        };
+    }
+
+    // Tells whether note passes all filters, used to decide whether changed note affects results
+    matches(file: TFile) {
+        if (file.extension !== 'md') return false;
+        const page = this.getPage(file);
+        return this.state.filters.every(filter => filter(page));
+    }
+
+    run(): QueryPage<F>[] {
+        const pages = this.app.vault.getMarkdownFiles()
+            .map(file => this.getPage(file))
+            .filter(page => this.state.filters.every(filter => filter(page)));
+        if (this.state.sort.length) {
+            pages.sort((a, b) => {
+                for (const { compare } of this.state.sort) {
+                    const result = compare(a, b);
+                    if (result !== 0) return result;
+                }
+                return 0;
+            });
+        }
+        return this.state.limit === null ? pages : pages.slice(0, this.state.limit);
+    }
+
+    first(): QueryPage<F> | null {
+        return this.limit(1).run()[0] ?? null;
+    }
+
+    count() {
+        return this.run().length;
+    }
+
+    // Tasks of matching notes
+    tasks() {
+        return new TaskQuery(this.app, this);
+    }
+}
+
+export class TaskQuery {
+    constructor(
+        private app: App,
+        private pages: Query<any>,
+        private filters: ((task: QueryTask) => boolean)[] = [],
+    ) { }
+
+    where(predicate: (task: QueryTask) => boolean) {
+        return new TaskQuery(this.app, this.pages, [...this.filters, predicate]);
+    }
+
+    completed(completed = true) {
+        return this.where(task => task.completed === completed);
+    }
+
+    // Text of tasks isn't stored in metadata cache, so notes have to be read
+    async run(): Promise<QueryTask[]> {
+        const perPage = await Promise.all(this.pages.run().map(async ({ file }) => {
+            const items = this.app.metadataCache.getFileCache(file)?.listItems?.filter(item => item.task !== undefined) ?? [];
+            if (items.length === 0) return [];
+            const lines = (await this.app.vault.cachedRead(file)).split('\n');
+            return items.map((item): QueryTask => {
+                const line = item.position.start.line;
+                return {
+                    file,
+                    text: lines[line]?.replace(/^\s*(?:[-*+]|\d+[.)])\s+\[.\]\s*/, '') ?? '',
+                    status: item.task!,
+                    completed: item.task !== ' ',
+                    line,
+                };
+            });
+        }));
+        return perPage.flat().filter(task => this.filters.every(filter => filter(task)));
+    }
+
+    matches(file: TFile) {
+        return this.pages.matches(file);
+    }
+}
+
+export const createQuery = <F extends Record<string, any> = Record<string, any>>(app: App) => new Query<F>(app);
@@ -1,29 +1,83 @@
-import { atom, Atom, getDefaultStore, useAtom } from "jotai";
+import { atom, Atom, getDefaultStore, PrimitiveAtom, useAtom } from "jotai";
 import type { EmeraPlugin } from '../plugin';
+import { useEffect } from "react";
+import { customAlphabet } from "nanoid";
 import { useEmeraContext } from "./context";
-import { normalizePath } from "obsidian";
+import { EmeraBlockInfo, writeBlockId } from "./block";
+import { normalizePath, Notice } from "obsidian";
+
+type NamespaceState = Record<string, any>;
+
+type NoteStorageState = {
+    note: NamespaceState,
+    blocks: Record<string, NamespaceState>,
+};
+
+// Atom persisted in namespace of note or block. Location is mutable, so atoms which are already used by
+// components follow their note when it's renamed
+type PersistedAtom = {
+    atom: PrimitiveAtom<any>,
+    notePath: string,
+    blockId?: string,
+    prop: string,
+    unsub: VoidFunction,
+};
+
+// Null character can't appear in file paths, so it's safe separator
+const getPersistedKey = (notePath: string, blockId: string | undefined, prop: string) => {
+    return blockId === undefined ? `note\0${notePath}\0${prop}` : `block\0${notePath}\0${blockId}\0${prop}`;
+};
 
 export const createEmeraStorage = (plugin: EmeraPlugin) => {
     const filePath = normalizePath(`${plugin.settings.componentsFolder}/storage.json`);
+    const notesFilePath = normalizePath(`${plugin.settings.componentsFolder}/note-storage.json`);
     let state: Record<string, any> = {};
-    let flushTimerId: null | ReturnType<typeof setTimeout> = null;
+    let notesState: Record<string, NoteStorageState> = {};
+    const flushTimerIds: Record<string, ReturnType<typeof setTimeout>> = {};
+    // Files with changes which weren't written yet, either scheduled or failed to write
+    const dirtyFiles = new Map<string, () => Promise<void>>();
     const atoms: Record<string, Atom<any>> = {};
+    const persistedAtoms = new Map<string, PersistedAtom>();
     const unsubFunction: VoidFunction[] = [];
 
+    const readJson = async (path: string) => {
+        const exists = await plugin.app.vault.adapter.exists(path);
+        if (!exists) return {};
+        try {
+            const content = await plugin.app.vault.adapter.read(path);
+            return JSON.parse(content);
+        } catch (err) {
+            console.log(`Emera storage file ${path} exists, but Emera couldn't read or parse it`);
+            return {};
+        }
+    };
+
     const init = async () => {
-        const exists = await plugin.app.vault.adapter.exists(filePath);
-        if (exists) {
-            try {
-                const content = await plugin.app.vault.adapter.read(filePath);
-                state = JSON.parse(content);
-            } catch (err) {
-                console.log(`Emera storage file exists, but Emera couldn't read or parse it`);
-            }
+        state = await readJson(filePath);
+        notesState = await readJson(notesFilePath);
+        pruneOrphans();
+    };
+
+    const writeFile = async (path: string, cb: () => Promise<void>) => {
+        // Changes made while writing mark file dirty again
+        dirtyFiles.delete(path);
+        try {
+            await cb();
+        } catch (err) {
+            dirtyFiles.set(path, cb);
+            console.log(`Couldn't save Emera storage file ${path}, changes will be saved with the next write`, err);
         }
     };
 
     const destroy = () => {
+        dirtyFiles.forEach((cb, path) => {
+            clearTimeout(flushTimerIds[path]);
+            delete flushTimerIds[path];
+            writeFile(path, cb);
+        });
         unsubFunction.forEach(cb => cb());
+        persistedAtoms.forEach(entry => entry.unsub());
+        persistedAtoms.clear();
     };
 
     const flush = async () => {
@@ -31,19 +85,112 @@ export const createEmeraStorage = (plugin: EmeraPlugin) => {
         await plugin.app.vault.adapter.write(filePath, stateStr);
     };
 
+    const flushNotes = async () => {
+        const stateStr = JSON.stringify(notesState, null, 4);
+        await plugin.app.vault.adapter.write(notesFilePath, stateStr);
+    };
+
+    const scheduleFlush = (path: string, cb: () => Promise<void>) => {
+        dirtyFiles.set(path, cb);
+        if (flushTimerIds[path] !== undefined) clearTimeout(flushTimerIds[path]);
+        flushTimerIds[path] = setTimeout(() => {
+            delete flushTimerIds[path];
+            writeFile(path, cb);
+        }, 100);
+    };
+
     const set = (prop: string, val: any) => {
         state[prop] = val;
-        if (flushTimerId !== null) clearTimeout(flushTimerId);
-        flushTimerId = setTimeout(async () => {
-            await flush();
-            flushTimerId = null;
-        }, 100);
+        scheduleFlush(filePath, flush);
     };
 
     const get = (prop: string) => {
         return state[prop];
     };
 
+    const getNamespace = (notePath: string, blockId?: string): NamespaceState => {
+        if (!notesState[notePath]) {
+            notesState[notePath] = { note: {}, blocks: {} };
+        }
+        const noteState = notesState[notePath];
+        if (blockId === undefined) return noteState.note;
+        if (!noteState.blocks[blockId]) noteState.blocks[blockId] = {};
+        return noteState.blocks[blockId];
+    };
+
+    const isWithinPath = (path: string, parentPath: string) => {
+        return path === parentPath || path.startsWith(`${parentPath}/`);
+    };
+
+    // Moves namespaces of note (or of all notes in folder) along with it
+    const renameNote = (oldPath: string, newPath: string) => {
+        let changed = false;
+        Object.keys(notesState).forEach((path) => {
+            if (!isWithinPath(path, oldPath)) return;
+            notesState[newPath + path.slice(oldPath.length)] = notesState[path];
+            delete notesState[path];
+            changed = true;
+        });
+        rekeyAtoms(
+            entry => isWithinPath(entry.notePath, oldPath),
+            (entry) => { entry.notePath = newPath + entry.notePath.slice(oldPath.length); },
+        );
+        if (changed) scheduleFlush(notesFilePath, flushNotes);
+    };
+
+    const deleteNote = (deletedPath: string) => {
+        let changed = false;
+        Object.keys(notesState).forEach((path) => {
+            if (!isWithinPath(path, deletedPath)) return;
+            delete notesState[path];
+            changed = true;
+        });
+        persistedAtoms.forEach((entry, key) => {
+            if (!isWithinPath(entry.notePath, deletedPath)) return;
+            entry.unsub();
+            persistedAtoms.delete(key);
+        });
+        if (changed) scheduleFlush(notesFilePath, flushNotes);
+    };
+
+    const rekeyAtoms = (predicate: (entry: PersistedAtom) => boolean, update: (entry: PersistedAtom) => void) => {
+        const moved = [...persistedAtoms].filter(([, entry]) => predicate(entry));
+        moved.forEach(([key]) => persistedAtoms.delete(key));
+        moved.forEach(([, entry]) => {
+            update(entry);
+            persistedAtoms.set(getPersistedKey(entry.notePath, entry.blockId, entry.prop), entry);
+        });
+    };
+
+    // Notes might have been deleted while plugin was disabled
+    const pruneOrphans = () => {
+        Object.keys(notesState).forEach((path) => {
+            if (!plugin.app.vault.getAbstractFileByPath(path)) deleteNote(path);
+        });
+    };
+
+    const createPersistedAtom = (notePath: string, blockId: string | undefined, prop: string, defaultValue: any) => {
+        const key = getPersistedKey(notePath, blockId, prop);
+        const existing = persistedAtoms.get(key);
+        if (existing) return existing.atom;
+
+        const initialState = getNamespace(notePath, blockId);
+        const store = getDefaultStore();
+        const entry: PersistedAtom = {
+            atom: atom((prop in initialState) ? initialState[prop] : defaultValue),
+            notePath,
+            blockId,
+            prop,
+            unsub: () => {},
+        };
+        entry.unsub = store.sub(entry.atom, () => {
+            getNamespace(entry.notePath, entry.blockId)[prop] = store.get(entry.atom);
+            scheduleFlush(notesFilePath, flushNotes);
+        });
+        persistedAtoms.set(key, entry);
+        return entry.atom;
+    };
+
     const getAtom = (prop: string, defaultValue: any) => {
         if (atoms[prop]) return atoms[prop];
 
@@ -59,6 +206,13 @@ export const createEmeraStorage = (plugin: EmeraPlugin) => {
         return primitiveAtom;
     };
 
+    const getNoteAtom = (notePath: string, prop: string, defaultValue: any) => {
+        return createPersistedAtom(notePath, undefined, prop, defaultValue);
+    };
+
+    const getBlockAtom = (notePath: string, blockId: string, prop: string, defaultValue: any) => {
+        return createPersistedAtom(notePath, blockId, prop, defaultValue);
+    };
 
     return {
         init,
@@ -67,6 +221,10 @@ export const createEmeraStorage = (plugin: EmeraPlugin) => {
         get,
         flush,
         getAtom,
+        getNoteAtom,
+        getBlockAtom,
+        renameNote,
+        deleteNote,
     };
 };
 
@@ -77,3 +235,41 @@ export const useStorage = <T>(key: string, defaultValue: T) => {
     const atom = storage.getAtom(key, defaultValue);
     return useAtom(atom);
 };
+
+export const useNoteStorage = <T>(key: string, defaultValue: T) => {
+    const { storage, file } = useEmeraContext();
+    if (!file) {
+        throw new Error(`useNoteStorage can be used only in components rendered in note`);
+    }
+    const atom = storage.getNoteAtom(file.path, key, defaultValue);
+    return useAtom(atom);
+};
+
+// Letters only, so id isn't parsed as number when read back from info string
+const createBlockId = customAlphabet('abcdefghijklmnopqrstuvwxyz', 8);
+
+// Blocks which were given id, but it wasn't written into note yet
+const unwrittenBlockIds = new WeakSet<EmeraBlockInfo>();
+
+export const useBlockStorage = <T>(key: string, defaultValue: T) => {
+    const { app, storage, block } = useEmeraContext();
+    if (!block) {
+        throw new Error(`useBlockStorage can be used only in components rendered from Emera code block`);
+    }
+    if (!block.id) {
+        block.id = createBlockId();
+        unwrittenBlockIds.add(block);
+    }
+
+    useEffect(() => {
+        if (!unwrittenBlockIds.has(block)) return;
+        unwrittenBlockIds.delete(block);
+        writeBlockId(app, block, block.id!).catch((err) => {
+            console.error(err);
+            new Notice(`Couldn't save id of Emera block in ${block.file.path}: ${err.message ?? err}`);
+        });
+    }, [block]);
+
+    const atom = storage.getBlockAtom(block.file.path, block.id, key, defaultValue);
+    return useAtom(atom);
+};
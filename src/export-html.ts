@@ -0,0 +1,185 @@
+import { Component, getFrontMatterInfo, MarkdownRenderer, normalizePath, TFile } from 'obsidian';
+import type { EmeraPlugin } from './plugin';
+
+// Output is considered complete once DOM didn't change for this long
+const SETTLE_TIME = 500;
+const MAX_WAIT_TIME = 15_000;
+const LOADING_SELECTOR = '.emera-loading-inline';
+
+// Obsidian disables scrolling on body, as it renders its own layout, which exported file doesn't have
+const EXPORT_CSS = `
+html, body { overflow: auto !important; position: static !important; height: auto !important; }
+.emera-export { max-width: 50rem; margin: 0 auto; padding: 2rem; }
+`;
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Components might load data asynchronously after being rendered, so we wait until they stop changing DOM
+const waitForDomToSettle = (el: HTMLElement) => new Promise<void>((resolve) => {
+    const startedAt = Date.now();
+    let lastMutation = Date.now();
+    const observer = new MutationObserver(() => {
+        lastMutation = Date.now();
+    });
+    observer.observe(el, { childList: true, subtree: true, characterData: true, attributes: true });
+
+    const check = () => {
+        const now = Date.now();
+        const settled = now - lastMutation >= SETTLE_TIME && !el.querySelector(LOADING_SELECTOR);
+        if (settled || now - startedAt >= MAX_WAIT_TIME) {
+            observer.disconnect();
+            resolve();
+            return;
+        }
+        setTimeout(check, 100);
+    };
+    check();
+});
+
+// Splits selector list by top-level commas, so `:is(a, b)` stays intact
+const splitSelectors = (selectorText: string) => {
+    const selectors: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of selectorText) {
+        if (char === '(' || char === '[') depth++;
+        if (char === ')' || char === ']') depth--;
+        if (char === ',' && depth === 0) {
+            selectors.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    selectors.push(current);
+    return selectors.map(selector => selector.trim()).filter(Boolean);
+};
+
+// Interactive states and pseudo elements never match in snapshot, but rules using them are still relevant
+const statePattern = /::?(?:before|after|hover|focus-visible|focus-within|focus|active|visited|placeholder|selection|marker|first-line|first-letter|-webkit-[\w-]+|-moz-[\w-]+)/gi;
+
+const isSelectorUsed = (root: HTMLElement, selector: string) => {
+    const stripped = selector.replace(statePattern, '').trim() || '*';
+    try {
+        return !!root.querySelector(stripped) || root.matches(stripped)
+            || document.body.matches(stripped) || document.documentElement.matches(stripped);
+    } catch (err) {
+        return false;
+    }
+};
+
+const collectRules = (rules: CSSRuleList, root: HTMLElement): string[] => {
+    const result: string[] = [];
+    for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSStyleRule) {
+            if (splitSelectors(rule.selectorText).some(selector => isSelectorUsed(root, selector))) result.push(rule.cssText);
+        } else if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+            const nested = collectRules(rule.cssRules, root);
+            if (nested.length) {
+                const type = rule instanceof CSSMediaRule ? '@media' : '@supports';
+                result.push(`${type} ${rule.conditionText} {\n${nested.join('\n')}\n}`);
+            }
+        } else if (rule instanceof CSSKeyframesRule) {
+            result.push(rule.cssText);
+        }
+        // Font faces and imports point to app resources, which aren't available outside Obsidian
+    }
+    return result;
+};
+
+// Only rules matching something in exported note (or variables defined on body) are included
+const collectUsedStyles = (root: HTMLElement) => {
+    return Array.from(document.styleSheets).flatMap((sheet) => {
+        try {
+            return collectRules(sheet.cssRules, root);
+        } catch (err) {
+            // Cross-origin stylesheets can't be read
+            return [];
+        }
+    }).join('\n');
+};
+
+const toDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const inlineImages = async (root: HTMLElement) => {
+    const images = Array.from(root.querySelectorAll('img')).filter(img => img.src && !img.src.startsWith('data:'));
+    await Promise.all(images.map(async (img) => {
+        try {
+            const response = await fetch(img.src);
+            img.src = await toDataUrl(await response.blob());
+            img.removeAttribute('srcset');
+        } catch (err) {
+            console.log(`Couldn't inline image ${img.src}, it's left as is`, err);
+        }
+    }));
+};
+
+// Existing files are never overwritten, next export of the same note gets name like `Note 1.html`
+export const getExportPath = async (plugin: EmeraPlugin, file: TFile) => {
+    const base = normalizePath(`${file.parent?.path ?? ''}/${file.basename}`);
+    let path = `${base}.html`;
+    for (let i = 1; await plugin.app.vault.adapter.exists(path); i++) {
+        path = `${base} ${i}.html`;
+    }
+    return path;
+};
+
+// Renders note through the same pipeline as reading mode, waits for all Emera blocks to finish, and writes
+// snapshot of resulting DOM along with styles it uses into HTML file next to the note. Blocks are evaluated in
+// separate scope, so open views of the note aren't affected
+export const exportNoteToHtml = async (plugin: EmeraPlugin, file: TFile) => {
+    await plugin.componentsLoadedPromise;
+    const text = await plugin.app.vault.cachedRead(file);
+    const markdown = text.slice(getFrontMatterInfo(text).contentStart);
+
+    // Rendered off screen, but still in document, so layout and styles work as usual
+    const container = document.body.createDiv({ cls: 'emera-export markdown-preview-view markdown-rendered' });
+    container.setCssStyles({ position: 'fixed', left: '-10000px', top: '0', width: '50rem' });
+    const component = new Component();
+    component.load();
+    const { sourcePath, unregister } = plugin.codeProcessor.registerExport(file);
+
+    try {
+        await MarkdownRenderer.render(plugin.app, markdown, container, sourcePath, component);
+        // Our post processor processes blocks in batch shortly after sections are rendered
+        await sleep(50);
+        await plugin.codeProcessor.whenIdle();
+        await waitForDomToSettle(container);
+
+        const styles = collectUsedStyles(container);
+        const snapshot = container.cloneNode(true) as HTMLElement;
+        snapshot.removeAttribute('style');
+        await inlineImages(snapshot);
+
+        const html = `<!DOCTYPE html>
+<html class="${escapeHtml(document.documentElement.className)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(file.basename)}</title>
+<style>
+${styles}
+${EXPORT_CSS}
+</style>
+</head>
+<body class="${escapeHtml(document.body.className)}">
+${snapshot.outerHTML}
+</body>
+</html>
+`;
+        const path = await getExportPath(plugin, file);
+        await plugin.app.vault.adapter.write(path, html);
+        return path;
+    } finally {
+        component.unload();
+        container.remove();
+        unregister();
+    }
+};
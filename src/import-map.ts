@@ -0,0 +1,73 @@
+import { normalizePath, Notice } from 'obsidian';
+import type { EmeraPlugin } from './plugin';
+
+export const IMPORT_MAP_FILE_NAME = 'emera-imports.json';
+
+export type ImportMap = {
+    // Specifier → vault path of file or folder
+    exact: Record<string, string>,
+    // Sorted from longest to shortest prefix, so most specific one wins
+    prefixes: [prefix: string, target: string][],
+};
+
+export const emptyImportMap = (): ImportMap => ({ exact: {}, prefixes: [] });
+
+export const getImportMapPath = (plugin: EmeraPlugin) => {
+    return normalizePath(`${plugin.settings.componentsFolder}/${IMPORT_MAP_FILE_NAME}`);
+};
+
+// Targets are relative to components folder, unless they start with `/`, in which case they're relative to vault root
+const resolveTarget = (plugin: EmeraPlugin, target: string) => {
+    const isFolder = target.endsWith('/');
+    const path = target.startsWith('/')
+        ? normalizePath(target)
+        : normalizePath(`${plugin.settings.componentsFolder}/${target}`);
+    return isFolder ? `${path}/` : path;
+};
+
+export const loadImportMap = async (plugin: EmeraPlugin): Promise<ImportMap> => {
+    const path = getImportMapPath(plugin);
+    const importMap = emptyImportMap();
+    if (!(await plugin.app.vault.adapter.exists(path))) {
+        return importMap;
+    }
+
+    let imports: Record<string, unknown>;
+    try {
+        imports = JSON.parse(await plugin.app.vault.adapter.read(path)).imports ?? {};
+    } catch (err) {
+        new Notice(`Emera couldn't parse ${path}: ${err.toString()}`);
+        return importMap;
+    }
+
+    Object.entries(imports).forEach(([specifier, target]) => {
+        if (typeof target !== 'string') return;
+        if (specifier.endsWith('/')) {
+            if (!target.endsWith('/')) {
+                console.log(`Import map entry ${specifier} is a prefix, so its target should end with '/' too`);
+                return;
+            }
+            importMap.prefixes.push([specifier, resolveTarget(plugin, target)]);
+        } else {
+            importMap.exact[specifier] = resolveTarget(plugin, target);
+        }
+    });
+    importMap.prefixes.sort((a, b) => b[0].length - a[0].length);
+
+    return importMap;
+};
+
+// Returns vault path which specifier maps to, or null if it isn't in import map
+export const matchImportMap = (importMap: ImportMap | undefined, specifier: string): string | null => {
+    if (!importMap) return null;
+    if (Object.hasOwn(importMap.exact, specifier)) {
+        return importMap.exact[specifier].replace(/\/$/, '');
+    }
+
+    const prefix = importMap.prefixes.find(([prefix]) => specifier.startsWith(prefix));
+    if (prefix) {
+        return prefix[1] + specifier.slice(prefix[0].length);
+    }
+
+    return null;
+};
@@ -0,0 +1,54 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type { Root } from 'react-dom/client';
+import type { EmeraPlugin } from './plugin';
+import { renderComponent } from './renderer';
+import { Inspector } from './components/Inspector';
+import { EMERA_INSPECTOR_VIEW_TYPE } from './consts';
+
+export class EmeraInspectorView extends ItemView {
+    private root: Root | null = null;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: EmeraPlugin) {
+        super(leaf);
+    }
+
+    getViewType() {
+        return EMERA_INSPECTOR_VIEW_TYPE;
+    }
+
+    getDisplayText() {
+        return 'Emera inspector';
+    }
+
+    getIcon() {
+        return 'bug';
+    }
+
+    async onOpen() {
+        this.root = renderComponent({
+            component: Inspector,
+            container: this.contentEl,
+            plugin: this.plugin,
+            context: {
+                file: null,
+                block: null,
+            },
+        });
+    }
+
+    async onClose() {
+        this.root?.unmount();
+        this.root = null;
+        this.contentEl.empty();
+    }
+}
+
+export const openInspector = async (plugin: EmeraPlugin) => {
+    const { workspace } = plugin.app;
+    let leaf = workspace.getLeavesOfType(EMERA_INSPECTOR_VIEW_TYPE)[0];
+    if (!leaf) {
+        leaf = workspace.getRightLeaf(false)!;
+        await leaf.setViewState({ type: EMERA_INSPECTOR_VIEW_TYPE, active: true });
+    }
+    workspace.revealLeaf(leaf);
+};
@@ -0,0 +1,107 @@
+import { TFile } from 'obsidian';
+import type { EmeraPlugin } from './plugin';
+import { EMERA_NOTE_IMPORT_PREFIX } from './consts';
+import { importFromString, transpile } from './bundler';
+import { findEmeraBlocks } from './processors/markdown-blocks';
+import { getScope, ScopeNode } from './scope';
+
+type NoteModule = {
+    // Same promise is shared by everyone importing note while it's evaluated
+    exports: Promise<Record<string, any>>,
+    // Notes this one imports, it's invalidated together with them
+    dependencies: Set<string>,
+};
+
+// Evaluates JS blocks of other notes, so their exports can be imported with `import { x } from 'note:Path/To/Note.md'`.
+// Blocks are evaluated without rendering anything, in their own scope tree which isn't shared with rendered note
+export class NoteModules {
+    private modules = new Map<string, NoteModule>();
+    // Import chain of each note which is being evaluated right now, used to detect cycles
+    private chains = new Map<string, string[]>();
+
+    constructor(private plugin: EmeraPlugin) { }
+
+    resolve(specifier: string, importer: string) {
+        const linkpath = specifier.slice(EMERA_NOTE_IMPORT_PREFIX.length);
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, importer)
+            ?? this.plugin.app.vault.getFileByPath(linkpath);
+        if (!file) {
+            throw new Error(`Couldn't find note ${linkpath} imported from ${importer || 'your code'}`);
+        }
+        return file;
+    }
+
+    // Called from transpiled code, see importRewriter
+    import = async (specifier: string, importer: string) => {
+        const file = this.resolve(specifier, importer);
+        const chain = [...(this.chains.get(importer) ?? [importer]), file.path];
+        if (chain.indexOf(file.path) !== chain.length - 1) {
+            throw new Error(`Circular import between notes: ${chain.filter(Boolean).join(' → ')}`);
+        }
+
+        this.modules.get(importer)?.dependencies.add(file.path);
+        let module = this.modules.get(file.path);
+        if (!module) {
+            module = { exports: Promise.resolve({}), dependencies: new Set() };
+            this.modules.set(file.path, module);
+            module.exports = this.evaluate(file, chain).finally(() => this.chains.delete(file.path));
+            // Failed evaluation isn't cached, so fixing the note is enough to retry
+            module.exports.catch(() => this.modules.get(file.path) === module && this.modules.delete(file.path));
+        }
+        return module.exports;
+    };
+
+    private async evaluate(file: TFile, chain: string[]) {
+        this.chains.set(file.path, chain);
+        const text = await this.plugin.app.vault.cachedRead(file);
+        const blocks = findEmeraBlocks(text).filter(block => block.type === 'block-js');
+
+        const baseId = `note-module/${file.path}`;
+        getScope(baseId)?.dispose();
+        let scope = new ScopeNode(baseId);
+        scope.set('file', file);
+        scope.set('frontmatter', this.plugin.app.metadataCache.getFileCache(file)?.frontmatter);
+        getScope('root').addChild(scope);
+
+        const exports: Record<string, any> = {};
+        for (const [index, block] of blocks.entries()) {
+            if (!(await this.plugin.trust.isTrusted(file, block.type, block.content, block))) {
+                throw new Error(`Block #${index + 1} of ${file.path} isn't trusted, open the note to approve it before importing`);
+            }
+
+            const writeScope = new ScopeNode(`${baseId}/${index}`);
+            scope.addChild(writeScope);
+            const { code, map } = transpile(block.content, {
+                scope,
+                sourceFileName: file.path,
+                importer: file.path,
+            });
+            const module = await importFromString(code, {
+                sourceMap: map,
+                sourceOrigin: { path: file.path, lineOffset: block.lineStart + 1 },
+            });
+            // Same as in rendered note, named block exposes its exports as namespace object
+            const name = block.attributes?.name;
+            const blockExports = typeof name === 'string' && name ? { [name]: { ...module } } : module;
+            writeScope.setMany(blockExports);
+            Object.assign(exports, blockExports);
+            scope = writeScope;
+        }
+        return exports;
+    }
+
+    // Drops cached exports of the note and of all notes importing it, returns whether anything was dropped
+    invalidate(path: string): boolean {
+        if (!this.modules.delete(path)) return false;
+        getScope(`note-module/${path}`)?.dispose();
+        for (const [importer, module] of Array.from(this.modules.entries())) {
+            if (module.dependencies.has(path)) this.invalidate(importer);
+        }
+        return true;
+    }
+
+    // Returns whether there was anything to drop
+    clear(): boolean {
+        return Array.from(this.modules.keys()).filter(path => this.invalidate(path)).length > 0;
+    }
+}
@@ -1,19 +1,52 @@
-import { App, MarkdownView, Notice, Plugin, PluginManifest } from 'obsidian';
+import { App, debounce, MarkdownView, Notice, Plugin, PluginManifest, TAbstractFile } from 'obsidian';
 import { SettingTab } from './settings';
-import { loadUserModule } from './bundler';
-import { EMERA_ROOT_SCOPE } from './consts';
+import { BuildReport, importRemoteModule, isUserModuleFile, loadUserModule } from './bundler';
+import { EMERA_INSPECTOR_VIEW_TYPE, EMERA_NOTE_MODULES, EMERA_REMOTE_MODULES, EMERA_ROOT_SCOPE } from './consts';
 import { createEmeraStorage, EmeraStorage } from './emera-module/storage';
 import { populateRootScope, ScopeNode } from './scope';
 import { EmeraCodeProcessor } from './processors/code-processor';
+import { createEmeraLanguageExtension } from './processors/emera-language';
+import { createRenamePrompt, RenamePrompt } from './rename-references';
+import { writeTypings } from './typings';
+import { styleRegistry } from './styles';
+import { BlockRegistry } from './block-registry';
+import { EmeraInspectorView, openInspector } from './inspector-view';
+import { transpileCache } from './transpile-cache';
+import { createEmeraTrust, EmeraTrust } from './trust';
+import { NoteModules } from './note-imports';
+import { exportNoteToHtml } from './export-html';
+import { ComponentPickerModal, EmeraComponentSuggest } from './component-suggest';
+
+export type ComponentLibrary = {
+    // Path to library's entry file, or folder containing index file
+    entry: string;
+    namespace: string;
+};
 
 interface PluginSettings {
     componentsFolder: string;
+    libraries: ComponentLibrary[];
+    autoRefresh: boolean;
+    promptOnRename: boolean;
+    // When enabled (default), code from notes runs only if note is in trusted folder or block was approved
+    requireTrust: boolean;
+    trustedFolders: string[];
+    // Note path to hashes of approved blocks
+    trustedNotes: Record<string, string[]>;
 }
 
 const DEFAULT_SETTINGS: PluginSettings = {
-    componentsFolder: 'Components'
+    componentsFolder: 'Components',
+    libraries: [],
+    autoRefresh: true,
+    promptOnRename: true,
+    requireTrust: true,
+    trustedFolders: [],
+    trustedNotes: {},
 };
 
+const EMERA_WIDGET_SELECTOR = '.emera-inline-js, .emera-inline-jsx, .emera-block-js, .emera-block-jsx';
+
 export class EmeraPlugin extends Plugin {
     settings: PluginSettings;
     registeredShorthandsProcessors: string[] = [];
@@ -22,7 +55,14 @@ export class EmeraPlugin extends Plugin {
     componentsLoadedPromise: Promise<void>;
     private resolveComponentsLoaded: VoidFunction;
     storage: EmeraStorage;
+    trust: EmeraTrust;
+    renamePrompt: RenamePrompt;
     rootScope: ScopeNode;
+    // Exports of all loaded libraries, as they were put into root scope
+    userModule: Record<string, any> = {};
+    buildReports: BuildReport[] = [];
+    blockRegistry = new BlockRegistry();
+    noteModules = new NoteModules(this);
 
     codeProcessor: EmeraCodeProcessor;
 
@@ -34,6 +74,9 @@ export class EmeraPlugin extends Plugin {
         this.resolveComponentsLoaded = resolve;
         // @ts-ignore
         window.emera = this;
+        // Transpiled code calls it to import exports of other notes
+        (window as any)[EMERA_NOTE_MODULES] = this.noteModules;
+        (window as any)[EMERA_REMOTE_MODULES] = { import: (url: string) => importRemoteModule(this, url) };
 
         this.rootScope = (window as any)[EMERA_ROOT_SCOPE];
         populateRootScope(this);
@@ -45,24 +88,50 @@ export class EmeraPlugin extends Plugin {
         await this.loadSettings();
         this.addSettingTab(new SettingTab(this.app, this));
         this.storage = createEmeraStorage(this);
+        this.trust = createEmeraTrust(this);
+        this.renamePrompt = createRenamePrompt(this);
+        await transpileCache.load(this);
+        // Cache is written periodically rather than on each change, as it might be quite big
+        this.registerInterval(window.setInterval(() => this.saveTranspileCache(), 30_000));
 
         this.registerMarkdownPostProcessor(this.codeProcessor.markdownPostProcessor);
+        this.registerView(EMERA_INSPECTOR_VIEW_TYPE, (leaf) => new EmeraInspectorView(leaf, this));
 
         this.registerEditorExtension([
             this.codeProcessor.codemirrorStateField,
+            createEmeraLanguageExtension(),
         ]);
 
-        // TODO: when file is renamed, we should prompt user to change its references in any Emera code block
+        this.registerEditorSuggest(new EmeraComponentSuggest(this));
 
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.storage.renameNote(oldPath, file.path);
+            this.trust.renameNote(oldPath, file.path);
+            this.invalidateNoteModule(oldPath);
+            if (!this.settings.promptOnRename) return;
+            this.renamePrompt.add(file, oldPath);
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            this.storage.deleteNote(file.path);
+            this.trust.deleteNote(file.path);
+            this.invalidateNoteModule(file.path);
+        }));
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            this.invalidateNoteModule(file.path);
+        }));
 
         this.app.workspace.onLayoutReady(async () => {
             this.isFilesLoaded = true;
             await this.storage.init();
-            const registry = await loadUserModule(this);
+            const { registry, reports } = await loadUserModule(this);
+            this.userModule = registry;
+            this.buildReports = reports;
             this.rootScope.setMany(registry);
             this.isComponentsLoaded = true;
             this.resolveComponentsLoaded();
             this.refreshEditors();
+            // Vault emits 'create' for every file during startup, so we start watching only once layout is ready
+            this.registerUserModuleWatcher();
         });
 
         this.addCommand({
@@ -70,14 +139,90 @@ export class EmeraPlugin extends Plugin {
             name: 'Refresh user module',
             callback: async () => {
                 await this.refreshUserModule();
-                new Notice('User module was reloaded.');
+                const rebuilt = this.buildReports.reduce((sum, report) => sum + report.rebuilt.length, 0);
+                const total = this.buildReports.reduce((sum, report) => sum + report.modules, 0);
+                const duration = this.buildReports.reduce((max, report) => Math.max(max, report.duration), 0);
+                new Notice(`User module was reloaded, rebuilt ${rebuilt} of ${total} modules in ${duration.toFixed(0)} ms.`);
             },
         });
+
+        this.addCommand({
+            id: 'update-remote-pins',
+            name: 'Update remote import pins',
+            callback: async () => {
+                await this.refreshUserModule({ updateRemotePins: true });
+                new Notice('Remote modules were downloaded again and pinned.');
+            },
+        });
+
+        this.addCommand({
+            id: 'open-inspector',
+            name: 'Open inspector',
+            callback: () => openInspector(this),
+        });
+
+        this.addCommand({
+            id: 'insert-component',
+            name: 'Insert Emera component',
+            editorCallback: (editor) => new ComponentPickerModal(this, editor).open(),
+        });
+
+        this.addCommand({
+            id: 'export-html',
+            name: 'Export current note to HTML',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+                if (checking) return true;
+
+                const notice = new Notice('Exporting note...', 0);
+                exportNoteToHtml(this, file)
+                    .then(path => new Notice(`Note was exported to ${path}.`))
+                    .catch((err) => {
+                        console.error(err);
+                        new Notice(`Couldn't export note: ${err.message ?? err}`);
+                    })
+                    .finally(() => notice.hide());
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'generate-types',
+            name: 'Generate TypeScript declarations',
+            callback: async () => {
+                await writeTypings(this);
+                new Notice(`TypeScript declarations were written to ${this.settings.componentsFolder}.`);
+            },
+        });
+    }
+
+    registerUserModuleWatcher() {
+        const onFileChange = (file: TAbstractFile, oldPath?: string) => {
+            if (!this.settings.autoRefresh) return;
+            if (isUserModuleFile(this, file.path) || (oldPath && isUserModuleFile(this, oldPath))) {
+                this.scheduleUserModuleRefresh();
+            }
+        };
+
+        this.registerEvent(this.app.vault.on('create', onFileChange));
+        this.registerEvent(this.app.vault.on('modify', onFileChange));
+        this.registerEvent(this.app.vault.on('delete', onFileChange));
+        this.registerEvent(this.app.vault.on('rename', onFileChange));
     }
 
-    refreshEditors = () => {
+    // Editors usually save file in a few steps, so we wait for changes to settle before rebundling
+    scheduleUserModuleRefresh = debounce(() => {
+        this.refreshUserModule().catch((err) => {
+            console.error(err);
+            new Notice(`Couldn't reload user module: ${err.message ?? err}`);
+        });
+    }, 500, true);
+
+    refreshEditors = ({ onlyWithWidgets = false }: { onlyWithWidgets?: boolean } = {}) => {
         this.app.workspace.iterateAllLeaves((leaf) => {
             if (leaf.view && leaf.view instanceof MarkdownView) {
+                if (onlyWithWidgets && !leaf.view.containerEl.querySelector(EMERA_WIDGET_SELECTOR)) return;
                 leaf.view.previewMode.rerender(true);
                 leaf.view.editor.refresh();
             }
@@ -85,16 +230,39 @@ export class EmeraPlugin extends Plugin {
 
     }
 
-    refreshUserModule = async () => {
-        const registry = await loadUserModule(this);
+    // Notes importing changed note are rendered again, so they pick up its new exports
+    invalidateNoteModule = (path: string) => {
+        if (this.noteModules.invalidate(path)) {
+            this.refreshEditors({ onlyWithWidgets: true });
+        }
+    };
+
+    refreshUserModule = async ({ updateRemotePins = false }: { updateRemotePins?: boolean } = {}) => {
+        const { registry, reports } = await loadUserModule(this, { updateRemotePins });
+        // Exports which were deleted or renamed shouldn't stay available. Blocks using removed or changed exports
+        // are run again by scope listeners
+        this.rootScope.unsetMany(Object.keys(this.userModule).filter(key => !Object.hasOwn(registry, key)));
+        this.userModule = registry;
+        this.buildReports = reports;
         this.rootScope.setMany(registry);
-        this.refreshEditors();
+        // Notes were evaluated with previous version of components, and scope doesn't know who imports them
+        if (this.noteModules.clear()) this.refreshEditors({ onlyWithWidgets: true });
     }
 
     onunload() {
+        this.scheduleUserModuleRefresh.cancel();
+        this.renamePrompt.cancel();
         this.storage.destroy();
+        styleRegistry.removeAll();
+        this.saveTranspileCache();
     }
 
+    saveTranspileCache = () => {
+        transpileCache.save(this).catch((err) => {
+            console.log(`Couldn't save transpile cache`, err);
+        });
+    };
+
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
     }
@@ -13,29 +13,40 @@ import {
     EditorView,
     WidgetType,
 } from "@codemirror/view";
-import { MarkdownPostProcessorContext, TFile, MarkdownView, editorInfoField, editorEditorField, editorLivePreviewField } from 'obsidian';
+import { MarkdownPostProcessorContext, MarkdownRenderChild, TFile, MarkdownView, editorInfoField, editorEditorField, editorLivePreviewField } from 'obsidian';
 import { EmeraPlugin } from '../plugin';
 import { iife } from '../utils';
 import { isCursorBetweenNodes, isCursorOnSameLineWithNode } from './utils';
 import { EMERA_INLINE_JS_PREFIX, EMERA_INLINE_JSX_PREFIX, EMERA_JS_LANG_NAME, EMERA_JSX_LANG_NAME, EMERA_JSX_SHORTHAND_LANG_NAME } from '../consts';
-import { getAnonymousDocScope, getPageScope, getScope, ScopeNode } from '../scope';
-import { compileJsxIntoFactory, importFromString, transpileCode } from '../bundler';
-import { renderComponent } from '../renderer';
+import { getAnonymousDocScope, getExportScope, getPageScope, getScope, ScopeNode } from '../scope';
+import { compileJsxIntoFactory, importFromString, transpile } from '../bundler';
+import type { SourceOrigin } from '../source-maps';
+import type { BlockRegistry } from '../block-registry';
+import { renderComponent, unmountComponent } from '../renderer';
 import { LoadingInline } from '../components/LoadingInline';
 import { Root } from 'react-dom/client';
 import { ErrorAlert } from '../components/ErrorBoundary';
 import { EmptyBlock } from '../components/EmptyBlock';
 import { JsBlockPlaceholder } from '../components/JsBlockPlaceholder';
+import { JsBlockOutput } from '../components/JsBlockOutput';
+import { LockedBlock } from '../components/LockedBlock';
+import { InlineJsResult } from '../components/InlineJsResult';
 import { RootComponent } from 'src/components/RootComponent';
+import type { EmeraBlockInfo } from '../emera-module/block';
+import type { ApprovedBlock } from '../trust';
+import { BlockAttributes, EmeraBlockType, findEmeraBlocks, getBlockId, parseFenceLanguage, withoutBlockId } from './markdown-blocks';
 
 
 type ProcessorContext = {
     file: TFile | null,
+    block: EmeraBlockInfo | null,
     index: number,
     total: number,
     readScope: ScopeNode,
     writeScope: ScopeNode,
     shortcutComponent?: string,
+    // Attributes from info string of fenced block
+    attributes?: BlockAttributes,
 } & ({
     mode: 'preview'
     originalPreviewElement: Element
@@ -54,6 +65,7 @@ type ToProcessEditorRecord = {
     content: string,
     cursorInside: boolean,
     shortcutComponent?: string,
+    attributes?: BlockAttributes,
 };
 type ToProcessPreviewRecord = {
     type:
@@ -64,9 +76,65 @@ type ToProcessPreviewRecord = {
     el: HTMLElement,
     content: string,
     shortcutComponent?: string,
+    location?: Omit<EmeraBlockInfo, 'file'>,
+    // Reading mode keeps only language in class name of code element, so attributes are taken from note source
+    attributes?: BlockAttributes,
+    // Context of section element belongs to, rendered blocks are cleaned up together with the section
+    sectionCtx: MarkdownPostProcessorContext,
 };
 
-type ProcessFunction = (wrapper: HTMLElement, content: string, ctx: ProcessorContext) => void;
+type WidgetRoot = {
+    key: string,
+    wrapper: HTMLElement,
+    container: HTMLElement,
+    // Roots of editor this widget belongs to
+    roots: Map<string, WidgetRoot>,
+    // Set once widget is destroyed, root is unmounted when it fires unless another widget took it over
+    unmountTimer: ReturnType<typeof setTimeout> | null,
+};
+
+type BlockKeyRecord = {
+    type: string,
+    content: string,
+    info: string,
+};
+
+// Gives each element of the note key which stays with it when elements around it are added or removed, so widget
+// keeps its React root. Blocks with `id` attribute are recognized by it, others by unchanged content, and remaining
+// ones are paired with remaining previous elements of the same type in order, which covers block being edited
+const assignBlockKeys = (previous: (BlockKeyRecord & { blockKey: string })[], current: (BlockKeyRecord & { id: string | null })[]) => {
+    const keys: (string | null)[] = [];
+    const taken = new Set<string>();
+    current.forEach((el) => {
+        const key = el.id === null ? null : `${el.type}/id/${el.id}`;
+        // Copied block shares id with original, only first one of them keeps it as key
+        if (key && !taken.has(key)) {
+            taken.add(key);
+            keys.push(key);
+        } else {
+            keys.push(null);
+        }
+    });
+
+    const unused = previous.filter(entry => !taken.has(entry.blockKey));
+    const take = (predicate: (entry: typeof unused[number]) => boolean) => {
+        const entryIndex = unused.findIndex(predicate);
+        if (entryIndex === -1) return null;
+        return unused.splice(entryIndex, 1)[0].blockKey;
+    };
+
+    current.forEach((el, index) => {
+        if (keys[index] !== null) return;
+        keys[index] = take(entry => entry.type === el.type && entry.content === el.content && entry.info === el.info);
+    });
+    return current.map((el, index) => {
+        return keys[index]
+            ?? take(entry => entry.type === el.type)
+            ?? `${el.type}/${Math.random().toString(36).slice(2)}`;
+    });
+};
+
+type ProcessFunction = (wrapper: HTMLElement, content: string, ctx: ProcessorContext) => void | Promise<void>;
 
 export class EmeraCodeProcessor {
     public plugin: EmeraPlugin;
@@ -75,48 +143,231 @@ export class EmeraCodeProcessor {
         this.plugin = plugin;
     }
 
+    // Tells where code of element starts in note, so errors can be mapped back to it
+    getSourceOrigin = (ctx: ProcessorContext): SourceOrigin | undefined => {
+        if (!ctx.file) return undefined;
+        // Code of fenced block starts on the line after opening fence
+        return { path: ctx.file.path, lineOffset: ctx.block ? ctx.block.lineStart + 1 : null };
+    };
+
+    // Registers block in inspector, further updates are addressed by write scope id
+    recordBlock = (type: EmeraBlockType, content: string, ctx: ProcessorContext) => {
+        const id = ctx.writeScope.id;
+        this.plugin.blockRegistry.start({
+            id,
+            type,
+            mode: ctx.mode,
+            file: ctx.file?.path ?? null,
+            index: ctx.index,
+            line: ctx.block?.lineStart ?? null,
+            source: content,
+            readScopeId: ctx.readScope.id,
+        });
+        return {
+            onRender: (renderTime: number) => this.plugin.blockRegistry.update(id, { renderTime }),
+            onError: (error: unknown) => this.plugin.blockRegistry.update(id, { error }),
+            update: (patch: Parameters<BlockRegistry['update']>[1]) => this.plugin.blockRegistry.update(id, patch),
+        };
+    };
+
+    // Source paths under which notes are rendered for export, mapped to exported note
+    private exportSources = new Map<string, TFile>();
+
+    // Note rendered with returned source path is processed as given file, but in its own scope
+    registerExport = (file: TFile) => {
+        const sourcePath = `${file.path}#emera-export`;
+        this.exportSources.set(sourcePath, file);
+        return {
+            sourcePath,
+            unregister: () => {
+                this.exportSources.delete(sourcePath);
+                const scope = getScope(`export/${file.path}`);
+                if (scope) {
+                    this.plugin.blockRegistry.prune(`${scope.id}/`, 0);
+                    scope.disposeDescendants();
+                }
+            },
+        };
+    };
+
+    // Reading mode renders which haven't finished yet, so we can wait until note is fully rendered (e.g. for export)
+    private pendingRenders = new Set<Promise<unknown>>();
+
+    private trackRender = (promise: Promise<unknown>) => {
+        this.pendingRenders.add(promise);
+        promise.finally(() => this.pendingRenders.delete(promise));
+    };
+
+    whenIdle = async () => {
+        // Finished renders might schedule new ones (e.g. JS block unblocks scope), so we check again until none is left
+        while (this.pendingRenders.size) {
+            await Promise.allSettled(Array.from(this.pendingRenders));
+        }
+    };
+
+    // Cleanups of previous run of block, keyed by element it's rendered into
+    private wrapperCleanups = new WeakMap<HTMLElement, VoidFunction>();
+
+    cleanupWrapper = (wrapper: HTMLElement) => {
+        this.wrapperCleanups.get(wrapper)?.();
+        this.wrapperCleanups.delete(wrapper);
+    };
+
+    // Runs block again once any of identifiers it reads is changed in its read scope or one of its ancestors
+    watchScope = (type: EmeraBlockType, wrapper: HTMLElement, content: string, ctx: ProcessorContext, reads: string[]) => {
+        this.cleanupWrapper(wrapper);
+        if (reads.length === 0) return;
+        const unsubscribe = ctx.readScope.onChange((changed) => {
+            if (!reads.some(key => changed.has(key))) return;
+            this.processors[type](wrapper, content, ctx);
+        });
+        this.wrapperCleanups.set(wrapper, unsubscribe);
+    };
+
+    // Placeholders currently shown to user, "Always trust this note" approves exactly these blocks
+    private lockedBlocks = new Map<HTMLElement, { path: string, block: ApprovedBlock }>();
+
+    getLockedBlocks = (path: string) => {
+        return Array.from(this.lockedBlocks.entries()).flatMap(([wrapper, locked]) => {
+            if (!wrapper.isConnected) {
+                this.lockedBlocks.delete(wrapper);
+                return [];
+            }
+            return locked.path === path ? [locked.block] : [];
+        });
+    };
+
+    // Runs processor only if block is trusted, otherwise shows placeholder which lets user approve it
+    withTrust = (type: EmeraBlockType, func: ProcessFunction): ProcessFunction => async (wrapper, content, ctx) => {
+        this.cleanupWrapper(wrapper);
+        // Following blocks shouldn't read from this scope until we know whether it will be populated
+        if (type === 'block-js') ctx.writeScope.block();
+        if (await this.plugin.trust.isTrusted(ctx.file, type, content, ctx)) return func(wrapper, content, ctx);
+        if (type === 'block-js') ctx.writeScope.unblock();
+
+        if (ctx.file) {
+            this.lockedBlocks.set(wrapper, {
+                path: ctx.file.path,
+                block: { type, content, shortcutComponent: ctx.shortcutComponent, attributes: ctx.attributes },
+            });
+            this.wrapperCleanups.set(wrapper, () => this.lockedBlocks.delete(wrapper));
+        }
+
+        const run = () => {
+            this.cleanupWrapper(wrapper);
+            // Processors might render into wrapper without React, so we start from clean state
+            unmountComponent(wrapper);
+            wrapper.empty();
+            func(wrapper, content, ctx);
+        };
+        const file = ctx.file;
+        wrapper.classList.add(`emera-${type}`);
+        renderComponent({
+            component: LockedBlock,
+            container: wrapper,
+            plugin: this.plugin,
+            props: {
+                inline: type.startsWith('inline'),
+                source: content,
+                onRunOnce: async () => {
+                    await this.plugin.trust.runOnce(file, type, content, ctx);
+                    run();
+                },
+                onTrustNote: file ? async () => {
+                    await this.plugin.trust.trustNote(file, this.getLockedBlocks(file.path));
+                    run();
+                    // Other blocks of this note are trusted now too
+                    this.plugin.refreshEditors({ onlyWithWidgets: true });
+                } : undefined,
+            },
+            context: {
+                file: ctx.file,
+                block: ctx.block,
+            },
+        });
+    };
+
     processInlineJs: ProcessFunction = async (wrapper: HTMLElement, content: string, ctx: ProcessorContext) => {
         const code = content.slice(EMERA_INLINE_JS_PREFIX.length);
         wrapper.classList.add('emera-inline-js');
-        wrapper.textContent = 'Loading...';
+        const record = this.recordBlock('inline-js', content, ctx);
 
-        let evaluated;
         try {
-            // console.log('Evaluating inline js', content);
+            let reactRoot: Element | Root = wrapper;
+            // Previous result stays on screen until new one is ready
+            if (!wrapper.hasChildNodes()) {
+                reactRoot = renderComponent({
+                    component: LoadingInline,
+                    container: wrapper,
+                    plugin: this.plugin,
+                    context: {
+                        file: ctx.file,
+                        block: ctx.block,
+                    },
+                });
+            }
 
-            const transpiled = transpileCode(`export default () => ${code}`, {
+            const sourceOrigin = this.getSourceOrigin(ctx);
+            const transpileStart = performance.now();
+            const { code: transpiled, map, reads } = transpile(`export default () => ${code}`, {
                 rewriteImports: false,
                 scope: ctx.readScope,
+                sourceFileName: sourceOrigin?.path ?? 'inline-js',
             });
+            record.update({ transpileTime: performance.now() - transpileStart });
+            this.watchScope('inline-js', wrapper, content, ctx, reads);
 
-            await await ctx.readScope.waitForUnblock();
-            const module = await importFromString(transpiled);
-            evaluated = await module.default();
+            await ctx.readScope.waitForUnblock();
+            const evaluateStart = performance.now();
+            const module = await importFromString(transpiled, { sourceMap: map, sourceOrigin });
+            // Promises aren't awaited here, result component shows loading state until they settle
+            const evaluated = module.default();
+            record.onRender(performance.now() - evaluateStart);
+            renderComponent({
+                component: InlineJsResult,
+                props: { value: evaluated, onError: record.onError },
+                container: reactRoot,
+                plugin: this.plugin,
+                context: {
+                    file: ctx.file,
+                    block: ctx.block,
+                },
+                onError: record.onError,
+            });
         } catch (err) {
             console.error(err);
-            evaluated = `❗️${err.toString()}`;
+            record.onError(err);
+            unmountComponent(wrapper);
+            wrapper.textContent = `❗️${err.toString()}`;
         }
-
-        wrapper.textContent = evaluated;
     };
 
     processInlineJsx: ProcessFunction = async (wrapper: HTMLElement, content: string, ctx: ProcessorContext) => {
         const code = content.slice(EMERA_INLINE_JSX_PREFIX.length);
         wrapper.classList.add('emera-inline-jsx');
+        const record = this.recordBlock('inline-jsx', content, ctx);
 
         try {
-            const reactRoot = renderComponent({
-                component: LoadingInline,
-                container: wrapper,
-                plugin: this.plugin,
-                context: {
-                    file: ctx.file,
-                },
-            });
+            let reactRoot: Element | Root = wrapper;
+            // Widget might be updated with new content, in this case we keep showing previous content until new one is ready
+            if (!this.plugin.isComponentsLoaded || !wrapper.hasChildNodes()) {
+                reactRoot = renderComponent({
+                    component: LoadingInline,
+                    container: wrapper,
+                    plugin: this.plugin,
+                    context: {
+                        file: ctx.file,
+                        block: ctx.block,
+                    },
+                });
+            }
 
             await this.plugin.componentsLoadedPromise;
 
-            const factory = await compileJsxIntoFactory(code, ctx.readScope);
+            const transpileStart = performance.now();
+            const { factory, reads } = await compileJsxIntoFactory(code, ctx.readScope, this.getSourceOrigin(ctx));
+            record.update({ transpileTime: performance.now() - transpileStart });
+            this.watchScope('inline-jsx', wrapper, content, ctx, reads);
             await ctx.readScope.waitForUnblock();
             // console.log('Processing inline JSX', code);
             // console.log('Compiled into', component);
@@ -128,34 +379,88 @@ export class EmeraCodeProcessor {
                 plugin: this.plugin,
                 context: {
                     file: ctx.file,
+                    block: ctx.block,
                 },
+                onRender: record.onRender,
+                onError: record.onError,
             });
         } catch (err) {
             console.error(err);
+            record.onError(err);
+            unmountComponent(wrapper);
             wrapper.textContent = `❗️${err.toString()}`;
         }
     };
 
+    // Exports of blocks with `once` attribute, keyed by note and block source
+    private onceExports = new Map<string, Record<string, any>>();
+
     processBlockJs: ProcessFunction = async (wrapper: HTMLElement, content: string, ctx: ProcessorContext) => {
         ctx.writeScope.block();
         wrapper.classList.add('emera-block-js');
+        const record = this.recordBlock('block-js', content, ctx);
         const code = content;
-        const root = renderComponent({
-            component: JsBlockPlaceholder,
-            container: wrapper,
-            plugin: this.plugin,
-            context: {
-                file: ctx.file,
-            },
-        });
+        const { name, hidden, once, output } = ctx.attributes ?? {};
+        const namespace = typeof name === 'string' && name ? name : undefined;
+        // Hidden blocks are still shown in Live Preview, otherwise there would be nothing to click on to edit them
+        const isHidden = !!hidden && ctx.mode === 'preview';
+        wrapper.classList.toggle('emera-block-js-hidden', isHidden);
+
+        let root: Element | Root = wrapper;
+        if (!isHidden) {
+            root = renderComponent({
+                component: JsBlockPlaceholder,
+                props: { name: namespace },
+                container: wrapper,
+                plugin: this.plugin,
+                context: {
+                    file: ctx.file,
+                    block: ctx.block,
+                },
+            });
+        }
 
         await ctx.readScope.waitForUnblock();
         try {
-            const transpiled = transpileCode(code, { scope: ctx.readScope });
-            const module = await importFromString(transpiled);
+            const onceKey = `${ctx.file?.path ?? ''}\0${content}`;
+            let module = once ? this.onceExports.get(onceKey) : undefined;
+            if (!module) {
+                const sourceOrigin = this.getSourceOrigin(ctx);
+                const transpileStart = performance.now();
+                const { code: transpiled, map, reads } = transpile(code, {
+                    scope: ctx.readScope,
+                    sourceFileName: sourceOrigin?.path ?? 'block-js',
+                    importer: ctx.file?.path,
+                });
+                record.update({ transpileTime: performance.now() - transpileStart });
+                // Block which runs once shouldn't run again when values it reads change
+                if (!once) this.watchScope('block-js', wrapper, content, ctx, reads);
+                const evaluateStart = performance.now();
+                module = { ...await importFromString(transpiled, { sourceMap: map, sourceOrigin }) } as Record<string, any>;
+                record.update({ renderTime: performance.now() - evaluateStart });
+                if (once) this.onceExports.set(onceKey, module);
+            }
+
             ctx.writeScope.reset();
-            ctx.writeScope.setMany(module);
+            ctx.writeScope.setMany(namespace ? { [namespace]: module } : module);
+            record.update({ exports: namespace ? [namespace] : Object.keys(module) });
+
+            if (output && !isHidden) {
+                renderComponent({
+                    component: JsBlockOutput,
+                    props: { exports: module, name: namespace },
+                    container: root,
+                    plugin: this.plugin,
+                    context: {
+                        file: ctx.file,
+                        block: ctx.block,
+                    },
+                });
+            }
         } catch (error) {
+            record.onError(error);
+            // Errors are shown even for hidden blocks, otherwise it would be hard to tell why variables are missing
+            wrapper.classList.remove('emera-block-js-hidden');
             renderComponent({
                 component: ErrorAlert,
                 container: root,
@@ -165,6 +470,7 @@ export class EmeraCodeProcessor {
                 plugin: this.plugin,
                 context: {
                     file: ctx.file,
+                    block: ctx.block,
                 },
             });
         } finally {
@@ -174,19 +480,22 @@ export class EmeraCodeProcessor {
 
     processBlockJsx: ProcessFunction = async (wrapper: HTMLElement, content: string, ctx: ProcessorContext) => {
         wrapper.classList.add('emera-block-jsx');
+        const record = this.recordBlock('block-jsx', content, ctx);
         // console.log('Processing JSX block');
         // console.log(content);
 
         if (content) {
             try {
                 let container: Element | Root = wrapper;
-                if (!this.plugin.isComponentsLoaded || ctx.readScope.isBlocked) {
+                // When widget is updated, previous render stays on screen until new one is ready, so component keeps its state
+                if (!this.plugin.isComponentsLoaded || (ctx.readScope.isBlocked && !wrapper.hasChildNodes())) {
                     container = renderComponent({
                         component: LoadingInline,
                         container: wrapper,
                         plugin: this.plugin,
                         context: {
                             file: ctx.file,
+                            block: ctx.block,
                         },
                     });
                 }
@@ -195,18 +504,26 @@ export class EmeraCodeProcessor {
                 await ctx.readScope.waitForUnblock();
 
                 if (ctx.shortcutComponent) {
-                    const component = ctx.readScope.get(ctx.shortcutComponent);
+                    this.watchScope('block-jsx', wrapper, content, ctx, [ctx.shortcutComponent.split('.')[0]]);
+                    const component = ctx.readScope.getByPath(ctx.shortcutComponent);
                     container = renderComponent({
                         component,
                         container,
                         plugin: this.plugin,
+                        props: withoutBlockId(ctx.attributes),
                         children: ctx.shortcutComponent ? content : undefined,
                         context: {
                             file: ctx.file,
+                            block: ctx.block,
                         },
+                        onRender: record.onRender,
+                        onError: record.onError,
                     });
                 } else {
-                    const factory = await compileJsxIntoFactory(content, ctx.readScope);
+                    const transpileStart = performance.now();
+                    const { factory, reads } = await compileJsxIntoFactory(content, ctx.readScope, this.getSourceOrigin(ctx));
+                    record.update({ transpileTime: performance.now() - transpileStart });
+                    this.watchScope('block-jsx', wrapper, content, ctx, reads);
                     container = renderComponent({
                         component: RootComponent,
                         props: { factory },
@@ -215,13 +532,17 @@ export class EmeraCodeProcessor {
                         children: ctx.shortcutComponent ? content : undefined,
                         context: {
                             file: ctx.file,
+                            block: ctx.block,
                         },
+                        onRender: record.onRender,
+                        onError: record.onError,
                     });
                 }
 
 
             } catch (err) {
                 console.error(err);
+                record.onError(err);
                 renderComponent({
                     component: ErrorAlert,
                     props: {
@@ -231,6 +552,7 @@ export class EmeraCodeProcessor {
                     plugin: this.plugin,
                     context: {
                         file: ctx.file,
+                        block: ctx.block,
                     },
                 });
             }
@@ -241,6 +563,7 @@ export class EmeraCodeProcessor {
                 plugin: this.plugin,
                 context: {
                     file: ctx.file,
+                    block: ctx.block,
                 },
             });
         }
@@ -248,17 +571,35 @@ export class EmeraCodeProcessor {
 
 
 
+    // React roots of Live Preview widgets, keyed by block identity. CodeMirror re-creates widgets whenever decorations
+    // are rebuilt, so we keep roots here and hand them over to new widget of the same block
+    private widgetRoots = new WeakMap<EditorView, Map<string, WidgetRoot>>();
+    private widgetRootsByDom = new WeakMap<HTMLElement, WidgetRoot>();
+
+    getWidgetRoots = (view: EditorView) => {
+        let roots = this.widgetRoots.get(view);
+        if (!roots) {
+            roots = new Map();
+            this.widgetRoots.set(view, roots);
+        }
+        return roots;
+    };
+
     createCodeMirrorWidget = (func: ProcessFunction, inline: boolean) => {
+        const parent = this;
         return class CodeMirrorWidget extends WidgetType {
             content: string;
             ctx: ProcessorContext;
             renderKey: string;
+            // Identity of element within the note, widgets of the same element share React root
+            blockKey: string;
 
-            constructor(renderKey: string, content: string, ctx: ProcessorContext) {
+            constructor(renderKey: string, blockKey: string, content: string, ctx: ProcessorContext) {
                 super();
                 this.content = content;
                 this.ctx = ctx;
                 this.renderKey = renderKey;
+                this.blockKey = blockKey;
             }
 
             eq(widget: CodeMirrorWidget): boolean {
@@ -266,42 +607,87 @@ export class EmeraCodeProcessor {
             }
 
             toDOM(view: EditorView): HTMLElement {
-                const wrapper = document.createElement(inline ? 'span' : 'div');
-                const reactRootWrapper = document.createElement(inline ? 'span' : 'div');
-                wrapper.appendChild(reactRootWrapper);
-                wrapper.addEventListener('click', (e) => {
-                    e.preventDefault();
-                    view.dispatch({
-                        selection: { anchor: view.posAtDOM(wrapper) },
-                        scrollIntoView: true
+                const roots = parent.getWidgetRoots(view);
+                let entry = roots.get(this.blockKey);
+                if (entry && entry.unmountTimer !== null) {
+                    // Widget of this block was just destroyed, so we take over its DOM along with React root
+                    clearTimeout(entry.unmountTimer);
+                    entry.unmountTimer = null;
+                } else {
+                    const wrapper = document.createElement(inline ? 'span' : 'div');
+                    const container = document.createElement(inline ? 'span' : 'div');
+                    wrapper.appendChild(container);
+                    wrapper.addEventListener('click', (e) => {
+                        e.preventDefault();
+                        view.dispatch({
+                            selection: { anchor: view.posAtDOM(wrapper) },
+                            scrollIntoView: true
+                        });
                     });
-                });
-                func(reactRootWrapper, this.content, this.ctx);
-                return wrapper;
+                    entry = { key: this.blockKey, wrapper, container, roots, unmountTimer: null };
+                    roots.set(this.blockKey, entry);
+                    parent.widgetRootsByDom.set(wrapper, entry);
+                }
+
+                func(entry.container, this.content, this.ctx);
+                return entry.wrapper;
+            }
+
+            updateDOM(dom: HTMLElement): boolean {
+                const entry = parent.widgetRootsByDom.get(dom);
+                if (!entry || entry.key !== this.blockKey) return false;
+                func(entry.container, this.content, this.ctx);
+                return true;
+            }
+
+            destroy(dom: HTMLElement): void {
+                const entry = parent.widgetRootsByDom.get(dom);
+                if (!entry) return;
+
+                // Unmount is deferred, so widget created for the same block during this update can pick up the root
+                if (entry.unmountTimer !== null) clearTimeout(entry.unmountTimer);
+                entry.unmountTimer = setTimeout(() => {
+                    entry.unmountTimer = null;
+                    if (entry.roots.get(entry.key) === entry) entry.roots.delete(entry.key);
+                    parent.widgetRootsByDom.delete(entry.wrapper);
+                    parent.cleanupWrapper(entry.container);
+                    unmountComponent(entry.container);
+                }, 0);
             }
         }
     };
 
-    InlineJsWidget = this.createCodeMirrorWidget(this.processInlineJs, true);
-    InlineJsxWidget = this.createCodeMirrorWidget(this.processInlineJsx, true);
-    BlockJsWidget = this.createCodeMirrorWidget(this.processBlockJs, false);
-    BlockJsxWidget = this.createCodeMirrorWidget(this.processBlockJsx, false);
+    processors: Record<EmeraBlockType, ProcessFunction> = {
+        'inline-js': this.withTrust('inline-js', this.processInlineJs),
+        'inline-jsx': this.withTrust('inline-jsx', this.processInlineJsx),
+        'block-js': this.withTrust('block-js', this.processBlockJs),
+        'block-jsx': this.withTrust('block-jsx', this.processBlockJsx),
+    };
+
+    InlineJsWidget = this.createCodeMirrorWidget(this.processors['inline-js'], true);
+    InlineJsxWidget = this.createCodeMirrorWidget(this.processors['inline-jsx'], true);
+    BlockJsWidget = this.createCodeMirrorWidget(this.processors['block-js'], false);
+    BlockJsxWidget = this.createCodeMirrorWidget(this.processors['block-jsx'], false);
 
     markdownPostProcessor = iife(() => {
         const processQueue = async () => {
             processingRequested = false;
             console.log('Starting queue processing');
 
-            Object.entries(queueMap).forEach(async ([key, { file, queue }]) => {
+            await Promise.all(Object.entries(queueMap).map(async ([key, { file, isExport, queue }]) => {
                 console.log('[PREVIEW] Will process elements', queue);
-                const startScope = file ? getPageScope(this.plugin, file) : getAnonymousDocScope(this.plugin, key);
+                const startScope = iife(() => {
+                    if (!file) return getAnonymousDocScope(this.plugin, key);
+                    return isExport ? getExportScope(this.plugin, file) : getPageScope(this.plugin, file);
+                });
                 await startScope.waitForUnblock();
                 console.log('[PREVIEW] Disposing page scope descendants');
                 startScope.disposeDescendants();
 
                 let readScope = startScope;
+                this.plugin.blockRegistry.prune(`${startScope.id}/`, queue.length);
                 queue.forEach((el, index, arr) => {
-                    const writeScopeId = file ? `page/${file.path}/${index}` : `anon-doc/${key}/${index}`;
+                    const writeScopeId = `${startScope.id}/${index}`;
                     let writeScope = getScope(writeScopeId);
                     if (writeScope) {
                         writeScope.dispose();
@@ -310,20 +696,25 @@ export class EmeraCodeProcessor {
                     readScope.addChild(writeScope);
                     const processorCtx = {
                         file,
+                        block: file && el.location ? { file, ...el.location } : null,
                         index,
                         total: arr.length,
                         mode: 'preview' as const,
                         originalPreviewElement: el.el,
                         shortcutComponent: el.shortcutComponent,
+                        attributes: el.attributes,
                         readScope,
                         writeScope,
                     };
 
                     const replacement = document.createElement(el.type.startsWith('inline') ? 'span' : 'div');
-                    if (el.type === 'inline-js') this.processInlineJs(replacement, el.content, processorCtx);
-                    if (el.type === 'inline-jsx') this.processInlineJsx(replacement, el.content, processorCtx);
-                    if (el.type === 'block-js') this.processBlockJs(replacement, el.content, processorCtx);
-                    if (el.type === 'block-jsx') this.processBlockJsx(replacement, el.content, processorCtx);
+                    const renderChild = new MarkdownRenderChild(replacement);
+                    renderChild.register(() => {
+                        this.cleanupWrapper(replacement);
+                        unmountComponent(replacement);
+                    });
+                    el.sectionCtx.addChild(renderChild);
+                    this.trackRender(Promise.resolve(this.processors[el.type](replacement, el.content, processorCtx)));
 
                     readScope = writeScope;
                     if (el.type.startsWith('inline')) el.el.replaceWith(replacement);
@@ -331,16 +722,39 @@ export class EmeraCodeProcessor {
                 });
 
                 delete queueMap[key];
-            });
+            }));
         };
 
         const queueMap: Record<string, {
             file: TFile | null,
+            isExport: boolean,
             queue: ToProcessPreviewRecord[],
         }> = {};
 
         let processingRequested = false;
 
+        // Each section receives full text of the note, so we remember last result to not re-scan it for every section
+        let lastScannedText: string | null = null;
+        let lastScannedBlocks: { location: Omit<EmeraBlockInfo, 'file'>, attributes?: BlockAttributes }[] = [];
+        const getNoteBlocks = (text: string) => {
+            if (text !== lastScannedText) {
+                lastScannedText = text;
+                lastScannedBlocks = findEmeraBlocks(text)
+                    .filter(block => block.type.startsWith('block'))
+                    .map((block, index) => ({
+                        location: {
+                            index,
+                            id: getBlockId(block.attributes),
+                            lineStart: block.lineStart,
+                            lineEnd: block.lineEnd,
+                            source: block.content,
+                        },
+                        attributes: block.attributes,
+                    }));
+            }
+            return lastScannedBlocks;
+        };
+
         return (el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
             if (el.dataset.emeraMarkdown) {
                 // This is content from our <Markdown /> component, we don't want to process it
@@ -349,7 +763,15 @@ export class EmeraCodeProcessor {
 
             // console.log('MD post', el, ctx);
 
-            const file = ctx.sourcePath ? this.plugin.app.vault.getFileByPath(ctx.sourcePath) : null;
+            const exportedFile = this.exportSources.get(ctx.sourcePath);
+            const file = exportedFile ?? (ctx.sourcePath ? this.plugin.app.vault.getFileByPath(ctx.sourcePath) : null);
+            const sectionBlocks = iife(() => {
+                const sectionInfo = ctx.getSectionInfo(el);
+                if (!sectionInfo) return [];
+                return getNoteBlocks(sectionInfo.text)
+                    .filter(({ location }) => location.lineStart >= sectionInfo.lineStart && location.lineEnd <= sectionInfo.lineEnd);
+            });
+            let sectionBlockIndex = 0;
             const code = Array.from(el.querySelectorAll('code'));
             const toProcess = code.flatMap((el): ToProcessPreviewRecord[] => {
                 const content = el.textContent ?? '';
@@ -361,19 +783,27 @@ export class EmeraCodeProcessor {
                         const match = regex.exec(el.className);
                         const componentSpecifier = match?.[1];
                         console.log('Process el', el.className, 'match', match);
+                        const sectionBlock = sectionBlocks[sectionBlockIndex++];
                         return [{
                             type: 'block-jsx',
                             el,
                             content,
+                            sectionCtx: ctx,
                             shortcutComponent: componentSpecifier,
+                            location: sectionBlock?.location,
+                            attributes: sectionBlock?.attributes,
                         }];
                     }
 
                     if (el.className.includes(`language-${EMERA_JS_LANG_NAME}`)) {
+                        const sectionBlock = sectionBlocks[sectionBlockIndex++];
                         return [{
                             type: 'block-js',
                             el,
                             content,
+                            sectionCtx: ctx,
+                            location: sectionBlock?.location,
+                            attributes: sectionBlock?.attributes,
                         }];
                     }
 
@@ -385,6 +815,7 @@ export class EmeraCodeProcessor {
                             type: 'inline-jsx',
                             el,
                             content,
+                            sectionCtx: ctx,
                         }];
                     }
 
@@ -393,6 +824,7 @@ export class EmeraCodeProcessor {
                             type: 'inline-js',
                             el,
                             content,
+                            sectionCtx: ctx,
                         }];
                     }
 
@@ -403,12 +835,13 @@ export class EmeraCodeProcessor {
             if (!queueMap[ctx.docId]) {
                 queueMap[ctx.docId] = {
                     file,
+                    isExport: !!exportedFile,
                     queue: [],
                 };
             }
             queueMap[ctx.docId].queue.push(...toProcess);
             if (!processingRequested) {
-                setTimeout(() => processQueue(), 10);
+                this.trackRender(new Promise(resolve => setTimeout(() => resolve(processQueue()), 10)));
                 processingRequested = true;
                 console.log('Scheduled queue processing');
             }
@@ -419,7 +852,8 @@ export class EmeraCodeProcessor {
         const parent = this;
         type PluginState = {
             decorations: DecorationSet,
-            cache: { type: string, content: string, key: string, cursorInside: boolean }[],
+            // Info is serialized shortcut component and attributes, block should be rendered again when they change
+            cache: { type: string, content: string, info: string, key: string, blockKey: string, cursorInside: boolean }[],
         };
 
         const processCodeblocks = ({ oldState, editorState, transaction }: {
@@ -508,28 +942,27 @@ export class EmeraCodeProcessor {
                     const lineTypes = ((node.type.prop(lineClassNodeProp) as string) || '').split(' ');
                     const isFenceStart = lineTypes.includes('HyperMD-codeblock-begin');
                     const isFenceEnd = lineTypes.includes('HyperMD-codeblock-end');
-                    const containstEmeraSpecifier = nodeContent.trim().endsWith(EMERA_JSX_LANG_NAME) || nodeContent.trim().includes(`${EMERA_JSX_SHORTHAND_LANG_NAME}:`) || nodeContent.trim().endsWith(EMERA_JS_LANG_NAME);
+                    const fenceLanguage = isFenceStart ? parseFenceLanguage(nodeContent.trim().replace(/^[`~]{3,}/, '')) : null;
 
-                    if (isFenceStart && containstEmeraSpecifier && !currentBlockStartNode) {
+                    if (isFenceStart && fenceLanguage && !currentBlockStartNode) {
                         currentBlockStartNode = node.node;
-                        currentBlockStartType = nodeContent.trim().endsWith(EMERA_JS_LANG_NAME) ? 'block-js' : 'block-jsx';
+                        currentBlockStartType = fenceLanguage.type;
                     } else if (isFenceEnd && currentBlockStartNode) {
                         const text = state.doc.sliceString(currentBlockStartNode.from, node.to).trim();
+                        const lines = text.split('\n');
+                        const openingFence = /^([`~]{3,})(.*)$/.exec(lines[0]);
+                        const parsed = openingFence && parseFenceLanguage(openingFence[2]);
+                        const code = lines.slice(1, -1).join('\n');
 
-                        const regex = new RegExp(`([\`~]{3,})(?:${EMERA_JS_LANG_NAME}|(?:${EMERA_JSX_LANG_NAME}|${EMERA_JSX_SHORTHAND_LANG_NAME}):?(\\S+)?)\\n([\\s\\S]+)\\n\\1`);
-                        const match = regex.exec(text);
-
-                        if (match) {
-                            const componentSpecifier = match[2];
-                            const code = match[3]
-
+                        if (parsed && lines.length > 2 && code && lines[lines.length - 1].trim() === openingFence[1]) {
                             toProcess.push({
                                 type: currentBlockStartType!,
                                 startNode: currentBlockStartNode,
                                 endNode: node.node,
                                 content: code,
                                 cursorInside: isCursorBetweenNodes(state, currentBlockStartNode, node),
-                                shortcutComponent: componentSpecifier ?? undefined,
+                                shortcutComponent: parsed.shortcutComponent,
+                                attributes: parsed.attributes,
                             });
                         }
 
@@ -551,6 +984,7 @@ export class EmeraCodeProcessor {
             // console.log('[EDITOR] Disposing page scope descendants', pageScope.id);
             // pageScope.disposeDescendants();
 
+            parent.plugin.blockRegistry.prune(`${pageScope.id}/`, toProcess.length);
             const cache: PluginState["cache"] = [];
             let shouldForceCached = false;
             let shouldReevaluate = false;
@@ -558,11 +992,22 @@ export class EmeraCodeProcessor {
 
             console.log('Old cache', oldState.cache);
             console.log('To Process', toProcess);
+            const infos = toProcess.map(el => JSON.stringify([el.shortcutComponent ?? null, el.attributes ?? null]));
+            const blockKeys = assignBlockKeys(oldState.cache, toProcess.map((el, index) => ({
+                type: el.type,
+                content: el.content,
+                info: infos[index],
+                id: el.type.startsWith('block') ? getBlockId(el.attributes) : null,
+            })));
+            let blockIndex = 0;
             toProcess.forEach((el, index) => {
                 const cacheEntry = oldState.cache[index];
+                const currentBlockIndex = el.type.startsWith('block') ? blockIndex++ : -1;
                 if (el.cursorInside) {
                     shouldForceCached = true;
                 }
+                const info = infos[index];
+                const blockKey = blockKeys[index];
                 const renderKey = iife(() => {
                     const randomKey = Math.random().toString();
                     if (cacheEntry && cacheEntry.cursorInside && !el.cursorInside) {
@@ -573,7 +1018,7 @@ export class EmeraCodeProcessor {
                     };
                     if (shouldForceCached) return cacheEntry?.key ?? randomKey;
                     if (!cacheEntry || shouldReevaluate) return randomKey;
-                    if (cacheEntry.type === el.type && cacheEntry.content === el.content) return cacheEntry.key;
+                    if (cacheEntry.type === el.type && cacheEntry.content === el.content && cacheEntry.info === info) return cacheEntry.key;
 
                     if (cacheEntry.type === 'block-js' || el.type === 'block-js') {
                         shouldReevaluate = true;
@@ -589,7 +1034,9 @@ export class EmeraCodeProcessor {
                 cache.push({
                     type: el.type,
                     content: el.content,
+                    info,
                     key: renderKey,
+                    blockKey,
                     cursorInside: el.cursorInside,
                 });
 
@@ -609,23 +1056,31 @@ export class EmeraCodeProcessor {
                     return;
                 }
 
+                const isInline = el.type.startsWith('inline');
                 const ctx = {
                     file,
+                    block: isInline ? null : {
+                        file,
+                        index: currentBlockIndex,
+                        id: getBlockId(el.attributes),
+                        lineStart: state.doc.lineAt(el.startNode.from).number - 1,
+                        lineEnd: state.doc.lineAt(el.endNode.to).number - 1,
+                        source: el.content,
+                    },
                     mode: 'edit',
                     index,
                     total: toProcess.length,
                     shortcutComponent: el.shortcutComponent,
+                    attributes: el.attributes,
                     readScope,
                     writeScope,
                 } as const;
-                // TODO: it will be good to re-use React roots so widgets will be able to preserve state between renders
                 const widget = iife(() => {
-                    if (el.type === 'inline-js') return new parent.InlineJsWidget(renderKey, el.content, ctx);
-                    if (el.type === 'inline-jsx') return new parent.InlineJsxWidget(renderKey, el.content, ctx);
-                    if (el.type === 'block-js') return new parent.BlockJsWidget(renderKey, el.content, ctx);
-                    if (el.type === 'block-jsx') return new parent.BlockJsxWidget(renderKey, el.content, ctx);
+                    if (el.type === 'inline-js') return new parent.InlineJsWidget(renderKey, blockKey, el.content, ctx);
+                    if (el.type === 'inline-jsx') return new parent.InlineJsxWidget(renderKey, blockKey, el.content, ctx);
+                    if (el.type === 'block-js') return new parent.BlockJsWidget(renderKey, blockKey, el.content, ctx);
+                    if (el.type === 'block-jsx') return new parent.BlockJsxWidget(renderKey, blockKey, el.content, ctx);
                 });
-                const isInline = el.type.startsWith('inline');
                 const decorationStart = Math.max(isInline ? el.startNode.from : el.startNode.from - 1, 0);
                 const decorationEnd = isInline ? el.endNode.to : el.endNode.to + 1;
                 console.log('[EDITOR] Adding decoration', decorationStart, decorationEnd, widget);
@@ -0,0 +1,342 @@
+import { NodeProp, Tree } from '@lezer/common';
+import { highlightTree, tagHighlighter, tags } from '@lezer/highlight';
+import { tsxLanguage } from '@codemirror/lang-javascript';
+import { getIndentUnit, indentString } from '@codemirror/language';
+import { autocompletion, Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { EditorSelection, EditorState, Extension, Line, Prec, Range, StateField, Text, Transaction } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, keymap } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import { EMERA_INLINE_JS_PREFIX, EMERA_INLINE_JSX_PREFIX } from '../consts';
+import { getScope, ScopeNode } from '../scope';
+import { EmeraBlockType, MarkdownFence, scanMarkdown } from './markdown-blocks';
+
+// Emera block or inline element. Code is parsed separately from the rest of the note, shorthand blocks contain
+// markdown so they aren't parsed
+type CodeRegion = {
+    type: EmeraBlockType,
+    // Index of element on the page, same as used for its scopes
+    index: number,
+    // Whole element, including fences or backticks
+    start: number,
+    end: number,
+    // Code itself
+    from: number,
+    to: number,
+    code: string,
+    tree: Tree | null,
+};
+
+type ParsedRegion = CodeRegion & { tree: Tree };
+
+type RegionsState = {
+    regions: CodeRegion[],
+    fences: MarkdownFence[],
+    highlight: DecorationSet,
+};
+
+// Obsidian's markdown parser doesn't allow nesting other parsers, so instead we parse code of each block with
+// TSX parser (it understands both JS and JSX) and apply results on top of it as decorations
+const parser = tsxLanguage.parser;
+
+// Classes are the same legacy modes use, so theme styles apply to them
+const highlighter = tagHighlighter([
+    { tag: tags.keyword, class: 'cm-keyword' },
+    { tag: [tags.string, tags.special(tags.string), tags.regexp], class: 'cm-string' },
+    { tag: tags.number, class: 'cm-number' },
+    { tag: [tags.bool, tags.null, tags.atom], class: 'cm-atom' },
+    { tag: tags.comment, class: 'cm-comment' },
+    { tag: [tags.definition(tags.variableName), tags.function(tags.definition(tags.variableName))], class: 'cm-def' },
+    { tag: tags.variableName, class: 'cm-variable' },
+    { tag: [tags.propertyName, tags.definition(tags.propertyName)], class: 'cm-property' },
+    { tag: [tags.typeName, tags.className], class: 'cm-type' },
+    { tag: tags.tagName, class: 'cm-tag' },
+    { tag: tags.attributeName, class: 'cm-attribute' },
+    { tag: tags.operator, class: 'cm-operator' },
+    { tag: [tags.bracket, tags.angleBracket, tags.squareBracket, tags.paren, tags.brace], class: 'cm-bracket' },
+]);
+
+const getCodeOffset = (type: EmeraBlockType) => {
+    if (type === 'inline-js') return EMERA_INLINE_JS_PREFIX.length;
+    if (type === 'inline-jsx') return EMERA_INLINE_JSX_PREFIX.length;
+    return 0;
+};
+
+// Blocks usually don't change, so their trees are reused
+const getTreeCache = (previous: CodeRegion[]) => {
+    return new Map(previous.map(region => [`${region.type}\0${region.code}`, region.tree]));
+};
+
+// Scans part of the note, offset is position of text in the document
+const scanRegions = (state: EditorState, from: number, to: number, trees: Map<string, Tree | null>) => {
+    const { blocks, fences } = scanMarkdown(state.doc.sliceString(from, to));
+    const regions = blocks.map((block): CodeRegion => {
+        const codeFrom = from + block.contentFrom + getCodeOffset(block.type);
+        const code = state.doc.sliceString(codeFrom, from + block.contentTo);
+        const tree = block.shortcutComponent ? null : (trees.get(`${block.type}\0${code}`) ?? parser.parse(code));
+        return { type: block.type, index: 0, start: from + block.from, end: from + block.to, from: codeFrom, to: from + block.contentTo, code, tree };
+    });
+    return {
+        regions,
+        fences: fences.map(fence => ({ from: from + fence.from, to: from + fence.to })),
+    };
+};
+
+const isParsed = (region: CodeRegion): region is ParsedRegion => region.tree !== null;
+
+const highlightRegions = (regions: CodeRegion[]) => {
+    const ranges: Range<Decoration>[] = [];
+    regions.filter(isParsed).forEach((region) => {
+        highlightTree(region.tree, highlighter, (from, to, classes) => {
+            ranges.push(getMark(classes).range(region.from + from, region.from + to));
+        });
+    });
+    return ranges;
+};
+
+const scanDocument = (state: EditorState, previous: CodeRegion[]): RegionsState => {
+    const { regions, fences } = scanRegions(state, 0, state.doc.length, getTreeCache(previous));
+    regions.forEach((region, index) => region.index = index);
+    return { regions, fences, highlight: Decoration.set(highlightRegions(regions)) };
+};
+
+const fenceLineRegex = /^\s*(?:`{3,}|~{3,})/;
+
+const hasFenceLine = (doc: Text, from: number, to: number) => {
+    for (let line = doc.lineAt(from).number; line <= doc.lineAt(to).number; line++) {
+        if (fenceLineRegex.test(doc.line(line).text)) return true;
+    }
+    return false;
+};
+
+// Inline elements can't cross blank lines or fences, so we extend range to the whole paragraph
+const getParagraphRange = (doc: Text, fences: MarkdownFence[], from: number, to: number) => {
+    const lower = Math.max(0, ...fences.filter(fence => fence.to < from).map(fence => fence.to + 1));
+    const upper = Math.min(doc.length, ...fences.filter(fence => fence.from > to).map(fence => fence.from - 1));
+    const isBoundary = (line: Line) => line.text.trim() === '' || line.from < lower || line.to > upper;
+    let first = doc.lineAt(from);
+    while (first.number > 1 && !isBoundary(doc.line(first.number - 1))) first = doc.line(first.number - 1);
+    let last = doc.lineAt(to);
+    while (last.number < doc.lines && !isBoundary(doc.line(last.number + 1))) last = doc.line(last.number + 1);
+    return { from: first.from, to: last.to };
+};
+
+// Regions are mapped through changes and only the part of the note around changes is scanned again. Changes
+// which might add or remove fence can change meaning of everything below them, so then the whole note is scanned
+const updateRegions = (value: RegionsState, tr: Transaction): RegionsState => {
+    let fromA = Infinity, toA = -Infinity, fromB = Infinity, toB = -Infinity;
+    tr.changes.iterChangedRanges((changeFromA, changeToA, changeFromB, changeToB) => {
+        fromA = Math.min(fromA, changeFromA);
+        toA = Math.max(toA, changeToA);
+        fromB = Math.min(fromB, changeFromB);
+        toB = Math.max(toB, changeToB);
+    });
+    const doc = tr.state.doc;
+    if (hasFenceLine(tr.startState.doc, fromA, toA) || hasFenceLine(doc, fromB, toB)) {
+        return scanDocument(tr.state, value.regions);
+    }
+
+    const fences = value.fences.map(fence => ({ from: tr.changes.mapPos(fence.from, -1), to: tr.changes.mapPos(fence.to, 1) }));
+    const window = fences.find(fence => fence.from <= fromB && toB <= fence.to) ?? getParagraphRange(doc, fences, fromB, toB);
+
+    const changed: CodeRegion[] = [];
+    const mapped = value.regions.flatMap((region): CodeRegion[] => {
+        const start = tr.changes.mapPos(region.start, -1);
+        const end = tr.changes.mapPos(region.end, 1);
+        if (end >= window.from && start <= window.to) {
+            changed.push(region);
+            return [];
+        }
+        return [{
+            ...region,
+            start,
+            end,
+            from: tr.changes.mapPos(region.from, -1),
+            to: tr.changes.mapPos(region.to, 1),
+        }];
+    });
+    const scanned = scanRegions(tr.state, window.from, window.to, getTreeCache(changed)).regions;
+    const regions = [...mapped, ...scanned].sort((a, b) => a.start - b.start);
+    regions.forEach((region, index) => region.index = index);
+
+    const highlight = value.highlight.map(tr.changes).update({
+        filterFrom: window.from,
+        filterTo: window.to,
+        filter: (from, to) => to < window.from || from > window.to,
+        add: highlightRegions(scanned),
+        sort: true,
+    });
+    return { regions, fences, highlight };
+};
+
+const findRegionAt = (regions: ParsedRegion[], pos: number) => {
+    return regions.find(region => region.from <= pos && pos <= region.to) ?? null;
+};
+
+const markCache = new Map<string, Decoration>();
+const getMark = (className: string) => {
+    let mark = markCache.get(className);
+    if (!mark) {
+        mark = Decoration.mark({ class: className });
+        markCache.set(className, mark);
+    }
+    return mark;
+};
+
+const regionsField = StateField.define<RegionsState>({
+    create(state) {
+        return scanDocument(state, []);
+    },
+    update(value, tr) {
+        if (!tr.docChanged) return value;
+        return updateRegions(value, tr);
+    },
+    provide: field => EditorView.decorations.from(field, value => value.highlight),
+});
+
+const getRegions = (state: EditorState) => state.field(regionsField).regions.filter(isParsed);
+
+// Returns offsets of bracket at position (relative to region) and its pair, if there is one
+const matchBracket = (region: ParsedRegion, pos: number) => {
+    for (const side of [-1, 1] as const) {
+        const node = region.tree.resolveInner(pos, side);
+        const isAtBracket = side < 0 ? node.to === pos : node.from === pos;
+        if (!isAtBracket || node.to - node.from !== 1) continue;
+        const closedBy = node.type.prop(NodeProp.closedBy);
+        const openedBy = node.type.prop(NodeProp.openedBy);
+        if (!closedBy && !openedBy) continue;
+
+        const pair = closedBy ? node.parent?.lastChild : node.parent?.firstChild;
+        const matched = !!pair && pair.from !== node.from && (closedBy ?? openedBy)!.includes(pair.name);
+        return { bracket: node, pair: matched ? pair! : null };
+    }
+    return null;
+};
+
+const matchingBracketMark = Decoration.mark({ class: 'cm-matchingBracket' });
+const nonMatchingBracketMark = Decoration.mark({ class: 'cm-nonmatchingBracket' });
+
+const bracketDecorations = EditorView.decorations.compute([regionsField, 'selection'], (state) => {
+    const { main } = state.selection;
+    const region = main.empty ? findRegionAt(getRegions(state), main.head) : null;
+    const match = region ? matchBracket(region, main.head - region.from) : null;
+    if (!region || !match) return Decoration.none;
+
+    const ranges = [match.bracket, match.pair]
+        .filter(node => !!node)
+        .sort((a, b) => a!.from - b!.from)
+        .map(node => (match.pair ? matchingBracketMark : nonMatchingBracketMark).range(region.from + node!.from, region.from + node!.to));
+    return Decoration.set(ranges);
+});
+
+const openingTagRegex = /(?:<>|<[A-Za-z][\w.$-]*(?:\s[^<>]*)?(?<!\/)>)\s*$/;
+
+// Keeps indentation of current line, and indents one level more after opening bracket or JSX tag
+const insertNewlineInBlock = (view: EditorView) => {
+    const { state } = view;
+    const range = state.selection.main;
+    if (!range.empty || state.selection.ranges.length > 1) return false;
+    const region = findRegionAt(getRegions(state), range.head);
+    if (!region || !region.type.startsWith('block')) return false;
+
+    const line = state.doc.lineAt(range.head);
+    const before = line.text.slice(0, range.head - line.from);
+    const after = line.text.slice(range.head - line.from);
+    const indent = /^\s*/.exec(line.text)![0];
+    const opens = /[{([]\s*$/.test(before) || openingTagRegex.test(before);
+    const closes = /^\s*(?:[})\]]|<\/)/.test(after);
+    const inner = opens ? indent + indentString(state, getIndentUnit(state)) : indent;
+    const insert = opens && closes ? `\n${inner}\n${indent}` : `\n${inner}`;
+
+    view.dispatch({
+        changes: { from: range.head, to: range.head + (after.length - after.trimStart().length), insert },
+        selection: EditorSelection.cursor(range.head + 1 + inner.length),
+        scrollIntoView: true,
+        userEvent: 'input',
+    });
+    return true;
+};
+
+const identifierRegex = /^[A-Za-z_$][\w$]*$/;
+
+// Includes inherited members (e.g. methods of arrays), but not ones every object has
+const getPropertyNames = (value: any) => {
+    const names = new Set<string>();
+    let current = value === null || value === undefined ? null : Object(value);
+    while (current && current !== Object.prototype && current !== Function.prototype) {
+        Object.getOwnPropertyNames(current).forEach(name => names.add(name));
+        current = Object.getPrototypeOf(current);
+    }
+    names.delete('constructor');
+    return Array.from(names).filter(name => identifierRegex.test(name));
+};
+
+const getCompletionType = (name: string, value: any, isMember: boolean) => {
+    if (typeof value === 'function') return /^[A-Z]/.test(name) ? 'class' : (isMember ? 'method' : 'function');
+    if (value && typeof value === 'object' && !isMember) return 'namespace';
+    return isMember ? 'property' : 'variable';
+};
+
+const safeGet = (target: any, name: string) => {
+    try {
+        return target[name];
+    } catch (err) {
+        // Getters might throw
+        return undefined;
+    }
+};
+
+const getReadScope = (state: EditorState, region: CodeRegion): ScopeNode => {
+    const file = state.field(editorInfoField, false)?.file;
+    if (!file) return getScope('root');
+    // Read scope of the block is parent of its write scope
+    return getScope(`page/${file.path}/${region.index}`)?.parent
+        ?? getScope(`page/${file.path}`)
+        ?? getScope('root');
+};
+
+const skippedNodes = new Set(['String', 'TemplateString', 'LineComment', 'BlockComment', 'JSXText']);
+
+// Completes variables visible to the block, and members of objects, e.g. `app.vault.`
+const completeFromScope = (context: CompletionContext): CompletionResult | null => {
+    const region = findRegionAt(getRegions(context.state), context.pos);
+    if (!region) return null;
+    if (skippedNodes.has(region.tree.resolveInner(context.pos - region.from, -1).name)) return null;
+
+    const word = context.matchBefore(/(?:[\w$]+\.)*[\w$]*/);
+    if (!word || (word.from === word.to && !context.explicit)) return null;
+    // Don't complete members of expressions like `foo().bar`
+    if (word.from > region.from && context.state.sliceDoc(word.from - 1, word.from) === '.') return null;
+
+    const path = word.text.split('.');
+    const search = path.pop()!;
+    const values = getReadScope(context.state, region).getAll();
+    let options: Completion[];
+    if (path.length) {
+        const target = path.reduce((value: any, segment) => value === undefined || value === null ? undefined : safeGet(value, segment), values);
+        options = getPropertyNames(target).map((name) => ({
+            label: name,
+            type: getCompletionType(name, safeGet(target, name), true),
+        }));
+    } else {
+        options = Object.keys(values).map((name) => ({
+            label: name,
+            type: getCompletionType(name, values[name], false),
+        }));
+    }
+
+    return {
+        from: word.to - search.length,
+        options,
+        validFor: /^[\w$]*$/,
+    };
+};
+
+// Highlighting, bracket matching, indentation and completions for code of Emera blocks in editor
+export const createEmeraLanguageExtension = (): Extension => [
+    regionsField,
+    bracketDecorations,
+    Prec.high(keymap.of([{ key: 'Enter', run: insertNewlineInBlock }])),
+    // Source is added next to sources of other extensions and returns nothing outside of Emera code
+    EditorState.languageData.of(() => [{ autocomplete: completeFromScope }]),
+    autocompletion(),
+];
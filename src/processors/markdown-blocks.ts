@@ -0,0 +1,265 @@
+import { EMERA_INLINE_JS_PREFIX, EMERA_INLINE_JSX_PREFIX, EMERA_JS_LANG_NAME, EMERA_JSX_LANG_NAME, EMERA_JSX_SHORTHAND_LANG_NAME } from '../consts';
+
+export type EmeraBlockType =
+    | 'inline-js'
+    | 'inline-jsx'
+    | 'block-js'
+    | 'block-jsx';
+
+export type MarkdownEmeraBlock = {
+    type: EmeraBlockType,
+    // Offsets of whole element in source text, including fences or backticks
+    from: number,
+    to: number,
+    // Offsets of code itself. For inline elements content includes `emera:` or `emjs:` prefix
+    contentFrom: number,
+    contentTo: number,
+    content: string,
+    // Zero-based lines of opening and closing fence. Same line for inline elements
+    lineStart: number,
+    lineEnd: number,
+    infoString?: string,
+    shortcutComponent?: string,
+    // Parsed from info string after language, e.g. `emmd:Callout type=warning`
+    attributes?: BlockAttributes,
+};
+
+export type BlockAttributes = Record<string, any>;
+
+// Fenced code block of any language, unclosed one lasts until the end of text
+export type MarkdownFence = {
+    from: number,
+    to: number,
+};
+
+const fenceRegex = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const inlineCodeRegex = /(`+)(?!`)([\s\S]*?[^`])\1(?!`)/g;
+
+const parseAttributeValue = (raw: string): any => {
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    if (raw === 'null') return null;
+    if (/^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i.test(raw)) return Number(raw);
+    if (raw.startsWith('{') || raw.startsWith('[')) {
+        try {
+            return JSON.parse(raw);
+        } catch (err) {
+            return raw;
+        }
+    }
+    return raw;
+};
+
+// Parses attributes like `type=warning title="Heads up" size=3 tags=["a","b"] collapsed`. Quoted values are always
+// strings, unquoted ones are parsed as booleans, numbers or JSON when possible, and attributes without value are `true`
+export const parseBlockAttributes = (text: string): BlockAttributes => {
+    const attributes: BlockAttributes = {};
+    let index = 0;
+
+    const skipWhitespace = () => {
+        while (index < text.length && /\s/.test(text[index])) index++;
+    };
+
+    const readQuoted = () => {
+        const quote = text[index++];
+        let value = '';
+        while (index < text.length && text[index] !== quote) {
+            if (text[index] === '\\' && index + 1 < text.length) index++;
+            value += text[index++];
+        }
+        index++;
+        return value;
+    };
+
+    // Reads until whitespace, but keeps JSON objects and arrays together even if they contain spaces
+    const readUnquoted = () => {
+        const start = index;
+        let depth = 0;
+        let quote: string | null = null;
+        while (index < text.length) {
+            const char = text[index];
+            if (quote) {
+                if (char === '\\') index++;
+                else if (char === quote) quote = null;
+            } else if (char === '"') {
+                quote = char;
+            } else if (char === '{' || char === '[') {
+                depth++;
+            } else if (char === '}' || char === ']') {
+                depth--;
+            } else if (depth <= 0 && /\s/.test(char)) {
+                break;
+            }
+            index++;
+        }
+        return text.slice(start, index);
+    };
+
+    skipWhitespace();
+    while (index < text.length) {
+        const keyMatch = /^[^\s=]+/.exec(text.slice(index));
+        if (!keyMatch) break;
+        const key = keyMatch[0];
+        index += key.length;
+
+        if (text[index] === '=') {
+            index++;
+            const quoted = text[index] === '"' || text[index] === "'";
+            attributes[key] = quoted ? readQuoted() : parseAttributeValue(readUnquoted());
+        } else {
+            attributes[key] = true;
+        }
+        skipWhitespace();
+    }
+
+    return attributes;
+};
+
+// `id` attribute gives block stable identity, so its state stays with it when blocks around it are added or removed
+export const getBlockId = (attributes?: BlockAttributes): string | null => {
+    const id = attributes?.id;
+    return id === undefined || id === null || id === true ? null : String(id);
+};
+
+// `id` identifies block itself, it isn't part of block's props
+export const withoutBlockId = (attributes?: BlockAttributes) => {
+    if (!attributes || !('id' in attributes)) return attributes;
+    const { id, ...rest } = attributes;
+    return rest;
+};
+
+export const parseFenceLanguage = (infoString: string): {
+    type: 'block-js' | 'block-jsx',
+    shortcutComponent?: string,
+    attributes: BlockAttributes,
+} | null => {
+    const trimmed = infoString.trim();
+    const lang = trimmed.split(/\s+/)[0] ?? '';
+    const attributes = () => parseBlockAttributes(trimmed.slice(lang.length));
+    if (lang === EMERA_JS_LANG_NAME) {
+        return { type: 'block-js', attributes: attributes() };
+    }
+
+    const jsxRegex = new RegExp(`^(?:${EMERA_JSX_LANG_NAME}|${EMERA_JSX_SHORTHAND_LANG_NAME})(?::(\\S+))?$`);
+    const match = jsxRegex.exec(lang);
+    if (match) {
+        return { type: 'block-jsx', shortcutComponent: match[1], attributes: attributes() };
+    }
+
+    return null;
+};
+
+export const getInlineCodeType = (content: string): 'inline-js' | 'inline-jsx' | null => {
+    if (content.startsWith(EMERA_INLINE_JSX_PREFIX)) return 'inline-jsx';
+    if (content.startsWith(EMERA_INLINE_JS_PREFIX)) return 'inline-js';
+    return null;
+};
+
+type OpenFence = {
+    marker: string,
+    lineStart: number,
+    from: number,
+    contentFrom: number,
+    infoString: string,
+};
+
+// Finds all Emera code blocks and inline code elements in markdown text, in order of appearance. Also returns all
+// fenced blocks, as they define where elements can be
+export const scanMarkdown = (text: string): { blocks: MarkdownEmeraBlock[], fences: MarkdownFence[] } => {
+    const blocks: MarkdownEmeraBlock[] = [];
+    const fences: MarkdownFence[] = [];
+    const lines = text.split('\n');
+    let offset = 0;
+    let fence: OpenFence | null = null;
+    let paragraph: { from: number, lineStart: number } | null = null;
+
+    const flushParagraph = (to: number) => {
+        if (!paragraph) return;
+        const paragraphText = text.slice(paragraph.from, to);
+        for (const match of paragraphText.matchAll(inlineCodeRegex)) {
+            let content = match[2];
+            let contentStart = match.index! + match[1].length;
+            // Same as CommonMark, strip single space from both sides if they're present
+            if (content.length > 2 && content.startsWith(' ') && content.endsWith(' ')) {
+                content = content.slice(1, -1);
+                contentStart += 1;
+            }
+
+            const type = getInlineCodeType(content);
+            if (!type) continue;
+            const from = paragraph.from + match.index!;
+            const line = paragraph.lineStart + paragraphText.slice(0, match.index!).split('\n').length - 1;
+            blocks.push({
+                type,
+                from,
+                to: from + match[0].length,
+                contentFrom: paragraph.from + contentStart,
+                contentTo: paragraph.from + contentStart + content.length,
+                content,
+                lineStart: line,
+                lineEnd: line + content.split('\n').length - 1,
+            });
+        }
+        paragraph = null;
+    };
+
+    lines.forEach((line, index) => {
+        const lineFrom = offset;
+        const lineTo = offset + line.length;
+        offset = lineTo + 1;
+
+        if (fence) {
+            const trimmed = line.trim();
+            if (trimmed.startsWith(fence.marker) && /^[`~]+$/.test(trimmed) && trimmed[0] === fence.marker[0]) {
+                const parsed = parseFenceLanguage(fence.infoString);
+                if (parsed) {
+                    const contentTo = Math.max(fence.contentFrom, lineFrom - 1);
+                    blocks.push({
+                        type: parsed.type,
+                        from: fence.from,
+                        to: lineTo,
+                        contentFrom: fence.contentFrom,
+                        contentTo,
+                        content: text.slice(fence.contentFrom, contentTo),
+                        lineStart: fence.lineStart,
+                        lineEnd: index,
+                        infoString: fence.infoString,
+                        shortcutComponent: parsed.shortcutComponent,
+                        attributes: parsed.attributes,
+                    });
+                }
+                fences.push({ from: fence.from, to: lineTo });
+                fence = null;
+            }
+            return;
+        }
+
+        const fenceMatch = fenceRegex.exec(line);
+        if (fenceMatch && !(fenceMatch[1][0] === '`' && fenceMatch[2].includes('`'))) {
+            flushParagraph(lineFrom);
+            fence = {
+                marker: fenceMatch[1],
+                lineStart: index,
+                from: lineFrom,
+                contentFrom: Math.min(lineTo + 1, text.length),
+                infoString: fenceMatch[2].trim(),
+            };
+            return;
+        }
+
+        if (line.trim() === '') {
+            flushParagraph(lineFrom);
+        } else if (!paragraph) {
+            paragraph = { from: lineFrom, lineStart: index };
+        }
+    });
+
+    flushParagraph(text.length);
+    // Assigned in callback, so TypeScript would narrow it to null here
+    const unclosed = fence as OpenFence | null;
+    if (unclosed) fences.push({ from: unclosed.from, to: text.length });
+
+    return { blocks: blocks.sort((a, b) => a.from - b.from), fences };
+};
+
+export const findEmeraBlocks = (text: string) => scanMarkdown(text).blocks;
@@ -0,0 +1,160 @@
+import { normalizePath, requestUrl } from 'obsidian';
+import type { Plugin as RollupPlugin } from '@rollup/browser';
+import type { EmeraPlugin } from './plugin';
+import { sha256 } from './utils';
+
+export const LOCK_FILE_NAME = 'emera-lock.json';
+export const REMOTE_CACHE_FOLDER_NAME = 'remote-modules';
+
+type LockEntry = {
+    integrity: string,
+    // Relative to components folder
+    file: string,
+};
+
+type Lockfile = {
+    version: 1,
+    modules: Record<string, LockEntry>,
+};
+
+export const isRemoteUrl = (specifier: string) => specifier.startsWith('http://') || specifier.startsWith('https://');
+
+export const getRemoteCacheFolder = (plugin: EmeraPlugin) => {
+    return normalizePath(`${plugin.settings.componentsFolder}/${REMOTE_CACHE_FOLDER_NAME}`);
+};
+
+const download = async (url: string) => {
+    const response = await requestUrl({ url, throw: false });
+    if (response.status >= 400) {
+        throw new Error(`Couldn't download ${url}, server responded with ${response.status}`);
+    }
+    return response.text;
+};
+
+// Remote modules are downloaded at bundle time and stored in vault, so they work offline (e.g. on mobile) and
+// can't change under us. Lockfile pins each URL to hash of its content
+export const createRemoteModules = async (plugin: EmeraPlugin, { updatePins = false }: { updatePins?: boolean } = {}) => {
+    const adapter = plugin.app.vault.adapter;
+    const folder = normalizePath(plugin.settings.componentsFolder);
+    const lockPath = normalizePath(`${folder}/${LOCK_FILE_NAME}`);
+    const cacheFolder = getRemoteCacheFolder(plugin);
+
+    let lockfile: Lockfile = { version: 1, modules: {} };
+    if (await adapter.exists(lockPath)) {
+        try {
+            lockfile = JSON.parse(await adapter.read(lockPath));
+        } catch (err) {
+            console.log(`Couldn't parse ${lockPath}, remote modules will be pinned again`, err);
+        }
+    }
+
+    let changed = false;
+    const used = new Set<string>();
+
+    // Modules are loaded in parallel, so we make sure folder is created only once
+    let cacheFolderPromise: Promise<void> | null = null;
+    const ensureCacheFolder = () => {
+        if (!cacheFolderPromise) {
+            cacheFolderPromise = (async () => {
+                if (!(await adapter.exists(cacheFolder))) {
+                    await adapter.mkdir(cacheFolder);
+                }
+            })();
+        }
+        return cacheFolderPromise;
+    };
+
+    const store = async (url: string, content: string) => {
+        const hash = await sha256(content);
+        const file = `${REMOTE_CACHE_FOLDER_NAME}/${hash.slice(0, 16)}.js`;
+        await ensureCacheFolder();
+        await adapter.write(normalizePath(`${folder}/${file}`), content);
+        lockfile.modules[url] = { integrity: `sha256-${hash}`, file };
+        changed = true;
+    };
+
+    const readCached = async (entry: LockEntry) => {
+        const path = normalizePath(`${folder}/${entry.file}`);
+        if (!(await adapter.exists(path))) return null;
+        const content = await adapter.read(path);
+        return `sha256-${await sha256(content)}` === entry.integrity ? content : null;
+    };
+
+    const load = async (url: string) => {
+        used.add(url);
+        const entry = lockfile.modules[url];
+
+        if (updatePins || !entry) {
+            try {
+                const content = await download(url);
+                await store(url, content);
+                return content;
+            } catch (err) {
+                // When updating pins we'd rather keep working copy than fail
+                const cached = entry ? await readCached(entry) : null;
+                if (cached !== null) return cached;
+                throw err;
+            }
+        }
+
+        const cached = await readCached(entry);
+        if (cached !== null) return cached;
+
+        // Pinned, but cached copy is missing (e.g. it wasn't synced). We can download it again, but only
+        // accept it if it's exactly what was pinned
+        const content = await download(url);
+        if (`sha256-${await sha256(content)}` !== entry.integrity) {
+            throw new Error(`Content of ${url} doesn't match hash pinned in ${LOCK_FILE_NAME}. `
+                + `If this change is expected, run "Update remote import pins" command`);
+        }
+        await store(url, content);
+        return content;
+    };
+
+    const save = async () => {
+        if (updatePins) {
+            // Drop pins for modules which aren't imported anymore
+            Object.keys(lockfile.modules).forEach((url) => {
+                if (!used.has(url)) {
+                    delete lockfile.modules[url];
+                    changed = true;
+                }
+            });
+        }
+        if (!changed) return;
+
+        await adapter.write(lockPath, JSON.stringify(lockfile, null, 4));
+        changed = false;
+
+        if (updatePins && await adapter.exists(cacheFolder)) {
+            const referenced = new Set(Object.values(lockfile.modules).map(entry => normalizePath(`${folder}/${entry.file}`)));
+            const { files } = await adapter.list(cacheFolder);
+            await Promise.all(files.filter(file => !referenced.has(file)).map(file => adapter.remove(file)));
+        }
+    };
+
+    const rollupPlugin = (): RollupPlugin => ({
+        name: 'emera-remote-modules',
+        resolveId(source, importer) {
+            if (isRemoteUrl(source)) {
+                return source;
+            }
+            // Imports inside remote modules are relative to their URL
+            if (importer && isRemoteUrl(importer) && (source.startsWith('/') || source.startsWith('./') || source.startsWith('../'))) {
+                return new URL(source, importer).href;
+            }
+            return null;
+        },
+        load(id) {
+            if (!isRemoteUrl(id)) return null;
+            return load(id);
+        },
+    });
+
+    return {
+        rollupPlugin,
+        save,
+    };
+};
+
+export type RemoteModules = Awaited<ReturnType<typeof createRemoteModules>>;
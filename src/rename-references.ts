@@ -0,0 +1,332 @@
+import { App, debounce, Modal, Notice, TAbstractFile, TFile, TFolder } from 'obsidian';
+import type { Root } from 'react-dom/client';
+import type { EmeraPlugin } from './plugin';
+import { findEmeraBlocks, MarkdownEmeraBlock } from './processors/markdown-blocks';
+import { renderComponent } from './renderer';
+import { findScopeReferences, isUserModuleFile } from './bundler';
+import { ReferenceUpdates } from './components/ReferenceUpdates';
+import { escapeRegExp } from './utils';
+import { EMERA_INLINE_JS_PREFIX, EMERA_INLINE_JSX_PREFIX, EMERA_NOTE_IMPORT_PREFIX } from './consts';
+
+export type ReferenceUpdate = {
+    id: string,
+    file: TFile,
+    from: number,
+    to: number,
+    before: string,
+    after: string,
+};
+
+type Replacement = {
+    pattern: RegExp,
+    replacement: string,
+};
+
+// Component renamed together with its file, references to it are updated only where they resolve to user module
+type ComponentRename = {
+    from: string,
+    to: string,
+};
+
+// Renamed note, `note:` imports which resolved to it by name are updated too
+type NoteRename = {
+    oldPath: string,
+    file: TFile,
+};
+
+type Replacements = {
+    paths: Replacement[],
+    components: ComponentRename[],
+    notes: NoteRename[],
+};
+
+// Resolves link path as seen from note being updated, same as `note:` imports are resolved
+type LinkResolver = (linkpath: string) => string | null;
+
+export type PendingRename = {
+    file: TAbstractFile,
+    oldPath: string,
+};
+
+const identifierRegex = /^[A-Za-z_$][\w$]*$/;
+
+const getBasename = (path: string) => {
+    const name = path.split('/').pop() ?? path;
+    const dotIndex = name.lastIndexOf('.');
+    return dotIndex > 0 ? name.slice(0, dotIndex) : name;
+};
+
+const withoutExtension = (path: string, extension: string) => {
+    return path.endsWith(`.${extension}`) ? path.slice(0, -(extension.length + 1)) : path;
+};
+
+const pathReplacement = (oldPath: string, newPath: string): Replacement => ({
+    pattern: new RegExp(`(?<![\\w/.-])${escapeRegExp(oldPath)}(?![\\w/.-])`, 'g'),
+    replacement: newPath,
+});
+
+const isComponentFile = (plugin: EmeraPlugin, path: string) => {
+    return isUserModuleFile(plugin, path) && /\.[jt]sx?$/.test(path);
+};
+
+const getReplacements = (plugin: EmeraPlugin, renames: PendingRename[]): Replacements => {
+    const replacements: Replacements = { paths: [], components: [], notes: [] };
+    renames.forEach(({ file, oldPath }) => {
+        if (file instanceof TFolder) {
+            replacements.paths.push({
+                pattern: new RegExp(`(?<![\\w/.-])${escapeRegExp(oldPath)}/`, 'g'),
+                replacement: `${file.path}/`,
+            });
+            return;
+        }
+
+        if (!(file instanceof TFile)) return;
+
+        replacements.paths.push(pathReplacement(oldPath, file.path));
+        if (file.extension === 'md') {
+            // Notes are often referenced without extension, e.g. in links
+            replacements.paths.push(pathReplacement(withoutExtension(oldPath, 'md'), withoutExtension(file.path, 'md')));
+            replacements.notes.push({ oldPath, file });
+        }
+
+        const oldName = getBasename(oldPath);
+        const newName = file.basename;
+        if (
+            isComponentFile(plugin, file.path)
+            && oldName !== newName
+            && identifierRegex.test(oldName)
+            && identifierRegex.test(newName)
+            // User module might be already rebuilt by the time we check, so either name counts
+            && (Object.hasOwn(plugin.userModule, oldName) || Object.hasOwn(plugin.userModule, newName))
+        ) {
+            // We assume component is named same as file it's defined in
+            replacements.components.push({ from: oldName, to: newName });
+        }
+    });
+
+    return replacements;
+};
+
+const applyReplacements = (text: string, replacements: Replacement[]) => {
+    return replacements.reduce((result, { pattern, replacement }) => result.replace(pattern, () => replacement), text);
+};
+
+const noteSpecifierRegex = new RegExp(`(['"\`])${escapeRegExp(EMERA_NOTE_IMPORT_PREFIX)}([^'"\`\n]+)\\1`, 'g');
+
+// Link path like `2026` or `Journal/2026.md` matches note with the same path ending
+const matchesLinkpath = (linkpath: string, path: string) => {
+    const target = linkpath.endsWith('.md') ? linkpath : `${linkpath}.md`;
+    return path === target || path.endsWith(`/${target}`);
+};
+
+// Rewrites `note:` imports which pointed to renamed note, but don't resolve to anything anymore. New specifier
+// is written in the same form as old one, unless it's ambiguous
+const renameNoteSpecifiers = (code: string, renames: NoteRename[], resolve: LinkResolver) => {
+    if (renames.length === 0) return code;
+    return code.replace(noteSpecifierRegex, (match, quote: string, linkpath: string) => {
+        if (resolve(linkpath) !== null) return match;
+        const rename = renames.find(rename => matchesLinkpath(linkpath, rename.oldPath));
+        if (!rename) return match;
+
+        const keepExtension = linkpath.endsWith('.md');
+        const newPath = keepExtension ? rename.file.path : withoutExtension(rename.file.path, 'md');
+        const newName = keepExtension ? rename.file.name : rename.file.basename;
+        const isBare = !linkpath.includes('/');
+        const updated = isBare && resolve(newName) === rename.file.path ? newName : newPath;
+        return `${quote}${EMERA_NOTE_IMPORT_PREFIX}${updated}${quote}`;
+    });
+};
+
+// Renames only identifiers which aren't declared in code itself, so local variables, props and object keys
+// with the same name stay untouched. Code which can't be parsed is left as is
+const renameComponents = (code: string, renames: ComponentRename[], jsx: boolean) => {
+    if (renames.length === 0) return { code, declared: [] as string[] };
+    const targets = new Map(renames.map(rename => [rename.from, rename.to]));
+    try {
+        const { references, declared } = findScopeReferences(code, new Set(targets.keys()), { jsx });
+        const renamed = [...references].reverse().reduce((result, reference) => {
+            const newName = targets.get(reference.name)!;
+            const replacement = reference.shorthand ? `${reference.name}: ${newName}` : newName;
+            return result.slice(0, reference.start) + replacement + result.slice(reference.end);
+        }, code);
+        return { code: renamed, declared };
+    } catch (err) {
+        return { code, declared: [] as string[] };
+    }
+};
+
+const updateBlock = (text: string, block: MarkdownEmeraBlock, replacements: Replacements, resolve: LinkResolver) => {
+    const original = text.slice(block.from, block.to);
+    const isJsx = block.type === 'inline-jsx' || block.type === 'block-jsx';
+    if (block.type.startsWith('inline')) {
+        const prefixLength = block.contentFrom - block.from + (isJsx ? EMERA_INLINE_JSX_PREFIX : EMERA_INLINE_JS_PREFIX).length;
+        const { code, declared } = renameComponents(original.slice(prefixLength, block.contentTo - block.from), replacements.components, isJsx);
+        const updated = original.slice(0, prefixLength)
+            + renameNoteSpecifiers(code, replacements.notes, resolve)
+            + original.slice(block.contentTo - block.from);
+        return { updated: applyReplacements(updated, replacements.paths), declared };
+    }
+
+    // Update only info string and code, but never fences
+    const openingFenceEnd = block.contentFrom - block.from;
+    const closingFenceStart = block.contentTo - block.from;
+    const openingFence = original.slice(0, openingFenceEnd);
+    const code = original.slice(openingFenceEnd, closingFenceStart);
+    const closingFence = original.slice(closingFenceStart);
+    const fenceMarker = /^\s*([`~]+)/.exec(openingFence)?.[1] ?? '';
+    const infoString = openingFence.slice(openingFence.indexOf(fenceMarker) + fenceMarker.length);
+
+    let updatedInfo = applyReplacements(infoString, replacements.paths);
+    let updatedCode = code;
+    let declared: string[] = [];
+    if (block.shortcutComponent) {
+        // Shorthand blocks contain markdown, only component name in info string is code
+        const rename = replacements.components.find(r => r.from === block.shortcutComponent);
+        if (rename) updatedInfo = updatedInfo.replace(`:${rename.from}`, `:${rename.to}`);
+    } else {
+        ({ code: updatedCode, declared } = renameComponents(code, replacements.components, isJsx));
+        updatedCode = renameNoteSpecifiers(updatedCode, replacements.notes, resolve);
+    }
+
+    return {
+        updated: openingFence.slice(0, openingFence.length - infoString.length)
+            + updatedInfo
+            + applyReplacements(updatedCode, replacements.paths)
+            + closingFence,
+        declared,
+    };
+};
+
+export const collectReferenceUpdates = async (plugin: EmeraPlugin, renames: PendingRename[]): Promise<ReferenceUpdate[]> => {
+    const replacements = getReplacements(plugin, renames);
+    if (replacements.paths.length === 0 && replacements.components.length === 0 && replacements.notes.length === 0) return [];
+
+    const updates: ReferenceUpdate[] = [];
+    for (const note of plugin.app.vault.getMarkdownFiles()) {
+        const text = await plugin.app.vault.cachedRead(note);
+        const blocks = findEmeraBlocks(text);
+        let components = replacements.components;
+        const resolve: LinkResolver = linkpath => plugin.app.metadataCache.getFirstLinkpathDest(linkpath, note.path)?.path ?? null;
+        blocks.forEach((block, index) => {
+            const before = text.slice(block.from, block.to);
+            const { updated: after, declared } = updateBlock(text, block, { ...replacements, components }, resolve);
+            // Block which exports variable with component's name shadows it for all blocks below
+            if (block.type === 'block-js' && declared.length) {
+                components = components.filter(rename => !declared.includes(rename.from));
+            }
+            if (before !== after) {
+                updates.push({
+                    id: `${note.path}:${index}`,
+                    file: note,
+                    from: block.from,
+                    to: block.to,
+                    before,
+                    after,
+                });
+            }
+        });
+    }
+
+    return updates;
+};
+
+export const applyReferenceUpdates = async (app: App, updates: ReferenceUpdate[]) => {
+    const byFile = new Map<TFile, ReferenceUpdate[]>();
+    updates.forEach((update) => {
+        byFile.set(update.file, [...(byFile.get(update.file) ?? []), update]);
+    });
+
+    let applied = 0;
+    for (const [file, fileUpdates] of byFile) {
+        await app.vault.process(file, (text) => {
+            // Apply from the end, so offsets of preceding blocks stay valid
+            return [...fileUpdates].sort((a, b) => b.from - a.from).reduce((result, update) => {
+                if (result.slice(update.from, update.to) !== update.before) {
+                    // File changed since we scanned it, skip to not corrupt user's content
+                    return result;
+                }
+                applied++;
+                return result.slice(0, update.from) + update.after + result.slice(update.to);
+            }, text);
+        });
+    }
+
+    return applied;
+};
+
+export class RenameReferencesModal extends Modal {
+    private root: Root | null = null;
+
+    constructor(private plugin: EmeraPlugin, private renames: PendingRename[], private updates: ReferenceUpdate[]) {
+        super(plugin.app);
+    }
+
+    onOpen() {
+        this.titleEl.setText('Update Emera references');
+        this.root = renderComponent({
+            component: ReferenceUpdates,
+            container: this.contentEl,
+            plugin: this.plugin,
+            context: {
+                file: null,
+                block: null,
+            },
+            props: {
+                renames: this.renames.map(({ file, oldPath }) => ({ oldPath, newPath: file.path })),
+                updates: this.updates,
+                onCancel: () => this.close(),
+                onApply: async (accepted: ReferenceUpdate[]) => {
+                    const applied = await applyReferenceUpdates(this.app, accepted);
+                    new Notice(`Updated ${applied} Emera ${applied === 1 ? 'block' : 'blocks'}.`);
+                    this.close();
+                },
+            },
+        });
+    }
+
+    onClose() {
+        this.root?.unmount();
+        this.root = null;
+        this.contentEl.empty();
+    }
+}
+
+export const promptToUpdateReferences = async (plugin: EmeraPlugin, renames: PendingRename[]) => {
+    const updates = await collectReferenceUpdates(plugin, renames);
+    if (updates.length === 0) return;
+    new RenameReferencesModal(plugin, renames, updates).open();
+};
+
+// Files inside of renamed folder are covered by folder's replacement, so they don't need their own
+const collapseRenames = (renames: PendingRename[]) => {
+    const folders = renames.filter(rename => rename.file instanceof TFolder);
+    return renames.filter(rename => !folders.some(folder => rename.oldPath.startsWith(`${folder.oldPath}/`)));
+};
+
+// Renaming folder emits event for folder itself and for each file inside of it, so renames are collected for
+// a moment and user is prompted once for all of them
+export const createRenamePrompt = (plugin: EmeraPlugin) => {
+    let pending: PendingRename[] = [];
+
+    const flush = debounce(() => {
+        const renames = collapseRenames(pending);
+        pending = [];
+        promptToUpdateReferences(plugin, renames).catch((err) => {
+            console.error(err);
+            new Notice(`Couldn't check Emera blocks for references: ${err.message ?? err}`);
+        });
+    }, 300, true);
+
+    return {
+        add(file: TAbstractFile, oldPath: string) {
+            pending.push({ file, oldPath });
+            flush();
+        },
+        cancel() {
+            pending = [];
+            flush.cancel();
+        },
+    };
+};
+
+export type RenamePrompt = ReturnType<typeof createRenamePrompt>;
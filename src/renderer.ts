@@ -1,4 +1,4 @@
-import { ComponentType, createElement, ReactNode } from "react";
+import { ComponentType, createElement, ReactNode, useLayoutEffect } from "react";
 import { EmeraContextProvider, EmeraContextType } from "./emera-module/context";
 import { createRoot, Root } from "react-dom/client";
 import type { EmeraPlugin } from './plugin';
@@ -10,14 +10,36 @@ export type RenderComponentParams<P extends Record<string, any>> = {
     plugin: EmeraPlugin,
     children?: ReactNode,
     context: Omit<EmeraContextType, 'plugin' | 'storage' | 'frontmatter' | 'app'>,
-    props?: P
+    props?: P,
+    // Called once component tree is committed to DOM, with time it took since render call
+    onRender?: (duration: number) => void,
+    onError?: (error: unknown) => void,
 };
 
-export const renderComponent = <P extends Record<string, any>>({ component, container, plugin, context, children, props }: RenderComponentParams<P>) => {
+// Layout effects of parent run after ones of its children, so by this point whole tree is mounted
+const RenderTimer = ({ start, onRender, children }: { start: number, onRender: (duration: number) => void, children?: ReactNode }) => {
+    useLayoutEffect(() => {
+        onRender(performance.now() - start);
+    }, [start]);
+    return children;
+};
+
+// Rendering into the same element again updates existing tree instead of creating new root, so components
+// keep their state
+const roots = new WeakMap<Element, Root>();
+
+export const unmountComponent = (container: Element) => {
+    roots.get(container)?.unmount();
+    roots.delete(container);
+};
+
+export const renderComponent = <P extends Record<string, any>>({ component, container, plugin, context, children, props, onRender, onError }: RenderComponentParams<P>) => {
+    const start = performance.now();
     let root: Root;
     if (container instanceof Element) {
         container.classList.add('emera-root');
-        root = createRoot(container);
+        root = roots.get(container) ?? createRoot(container);
+        roots.set(container, root);
     } else {
         root = container;
     }
@@ -33,8 +55,10 @@ export const renderComponent = <P extends Record<string, any>>({ component, cont
                 frontmatter,
             },
         },
-            createElement(ErrorBoundary, {},
-                createElement(component, props, children)
+            createElement(ErrorBoundary, { onError, resetKeys: [component, props, children] },
+                onRender
+                    ? createElement(RenderTimer, { start, onRender }, createElement(component, props, children))
+                    : createElement(component, props, children)
             )
         )
     );
@@ -3,6 +3,9 @@ import { EMERA_MODULES, EMERA_ROOT_SCOPE } from "./consts";
 import type { EmeraPlugin } from "./plugin";
 import { TFile } from 'obsidian';
 import { safeCall } from './utils';
+import { createQuery } from './emera-module/query';
+
+export type ScopeChangeListener = (changedKeys: Set<string>) => void;
 
 export class ScopeNode {
     public parent: ScopeNode | null = null;
@@ -10,8 +13,12 @@ export class ScopeNode {
     public scope: Record<string, any>;
 
     private descendantsMap: Record<string, ScopeNode> = {};
-    private listeners: Set<VoidFunction> = new Set();
+    private listeners: Set<ScopeChangeListener> = new Set();
     private willInvokeListeners = false;
+    // Keys changed since listeners were called last time
+    private changedKeys: Set<string> = new Set();
+    // Own values before scope was reset, so keys populated again with the same values aren't reported as changed
+    private valuesBeforeReset: Record<string, any> | null = null;
     private unblockPromiseWithResolvers: null | ReturnType<typeof Promise.withResolvers<void>> = null;
 
     constructor(public id: string) {
@@ -22,6 +29,19 @@ export class ScopeNode {
         return this.scope[prop];
     }
 
+    // Resolves dotted path like `team.Callout`, where first segment is looked up in scope
+    getByPath(path: string): any {
+        const [first, ...rest] = path.split('.');
+        let value = this.get(first);
+        for (const segment of rest) {
+            if (value === undefined || value === null || !(segment in Object(value))) {
+                throw new Error(`you're accessing '${path}' but it isn't present in current scope`);
+            }
+            value = value[segment];
+        }
+        return value;
+    }
+
     getAll(): Record<string, any> {
         return {
             ...(this.parent ? this.parent.getAll() : {}),
@@ -36,16 +56,24 @@ export class ScopeNode {
     }
   
     set(prop: string, val: any) {
-        this.scope[prop] = val;
-        this.scheduleOnChange();
+        this.setMany({ [prop]: val });
     }
 
     setMany(mapping: Record<string, any>) {
+        // Setting the same value again isn't a change, so blocks reading it aren't re-evaluated
+        const changed = Object.keys(mapping).filter(key => !Object.hasOwn(this.scope, key) || this.scope[key] !== mapping[key]);
         Object.assign(this.scope, mapping);
-        this.scheduleOnChange();
+        this.scheduleOnChange(changed);
     }
 
-    onChange(cb: VoidFunction) {
+    unsetMany(keys: string[]) {
+        const removed = keys.filter(key => Object.hasOwn(this.scope, key));
+        removed.forEach(key => delete this.scope[key]);
+        this.scheduleOnChange(removed);
+    }
+
+    // Listener is called with keys changed in this scope or any of its ancestors
+    onChange(cb: ScopeChangeListener) {
         this.listeners.add(cb);
         return () => this.listeners.delete(cb);
     }
@@ -78,21 +106,44 @@ export class ScopeNode {
         return Promise.resolve();
     }
 
-    private scheduleOnChange() {
+    private scheduleOnChange(keys: string[]) {
+        keys.forEach(key => this.changedKeys.add(key));
         if (this.willInvokeListeners) return
         setTimeout(() => {
             this.willInvokeListeners = false;
-            this.invokeListeners();
+            const changed = this.changedKeys;
+            const before = this.valuesBeforeReset;
+            this.changedKeys = new Set();
+            this.valuesBeforeReset = null;
+            if (before) {
+                changed.forEach((key) => {
+                    if (Object.hasOwn(before, key) && Object.hasOwn(this.scope, key) && this.scope[key] === before[key]) {
+                        changed.delete(key);
+                    }
+                });
+            }
+            if (changed.size) this.invokeListeners(changed);
         }, 0);
         this.willInvokeListeners = true;
     }
 
-    private invokeListeners() {
-        this.listeners.forEach(safeCall);
-        this.children.forEach(child => child.invokeListeners());
+    private invokeListeners(changed: Set<string>) {
+        this.listeners.forEach(cb => safeCall(() => cb(changed)));
+        this.children.forEach(child => {
+            // Child's own values shadow ones from this scope, so their changes don't matter to it
+            const visible = new Set(Array.from(changed).filter(key => !Object.hasOwn(child.scope, key)));
+            child.invokeListeners(visible);
+        });
     }
 
+    // Changes are reported once listeners are called, by then block usually populated scope again
     reset() {
+        const previousKeys = this.scope ? Object.keys(this.scope) : [];
+        if (this.scope && !this.valuesBeforeReset) {
+            this.valuesBeforeReset = { ...this.scope };
+            // These were already changed, whatever value they get now
+            this.changedKeys.forEach(key => delete this.valuesBeforeReset![key]);
+        }
         this.scope = new Proxy({}, {
             get: (target, prop: string, receiver) => {
                 if (Object.hasOwn(target, prop)) {
@@ -104,7 +155,7 @@ export class ScopeNode {
                 throw new Error(`you're accessing '${prop}' but it isn't present in current scope`);
             },
         });
-        this.scheduleOnChange();
+        this.scheduleOnChange(previousKeys);
     }
 
     addChild(child: ScopeNode) {
@@ -183,6 +234,7 @@ export const populateRootScope = (plugin: EmeraPlugin) => {
     scope.reset();
     scope.set('app', plugin.app);
     scope.set('modules', (window as any)[EMERA_MODULES]);
+    scope.set('query', () => createQuery(plugin.app));
 };
 
 export const getPageScope = (plugin: EmeraPlugin, file: TFile) => {
@@ -197,7 +249,10 @@ export const getPageScope = (plugin: EmeraPlugin, file: TFile) => {
         plugin.app.metadataCache.on('changed', (changedFile, data) => {
             if (file.path === changedFile.path) {
                 const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
-                scope!.set('frontmatter', frontmatter);
+                // Cache produces new object on each change of the note, even if properties stayed the same
+                if (JSON.stringify(frontmatter) !== JSON.stringify(scope!.get('frontmatter'))) {
+                    scope!.set('frontmatter', frontmatter);
+                }
                 scope!.set('file', file);
             }
         });
@@ -207,6 +262,20 @@ export const getPageScope = (plugin: EmeraPlugin, file: TFile) => {
     return scope;
 }
 
+// Export renders note separately from its open views, so it doesn't dispose their scopes. Values are taken once,
+// as export is short-lived
+export const getExportScope = (plugin: EmeraPlugin, file: TFile) => {
+    const id = `export/${file.path}`;
+    let scope = getScope(id);
+    if (!scope) {
+        scope = new ScopeNode(id);
+        getScope('root').addChild(scope);
+    }
+    scope.set('file', file);
+    scope.set('frontmatter', plugin.app.metadataCache.getFileCache(file)?.frontmatter);
+    return scope;
+};
+
 export const getAnonymousDocScope = (plugin: EmeraPlugin, docId: string) => {
     const id = `anon-doc/${docId}`;
     let scope = getScope(id);
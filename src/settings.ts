@@ -1,4 +1,4 @@
-import type { EmeraPlugin } from "./plugin";
+import type { ComponentLibrary, EmeraPlugin } from "./plugin";
 import { PluginSettingTab, App, Setting, Notice } from "obsidian";
 
 export class SettingTab extends PluginSettingTab {
@@ -24,6 +24,27 @@ export class SettingTab extends PluginSettingTab {
                     this.plugin.settings.componentsFolder = value;
                     await this.plugin.saveSettings();
                 }));
+        this.displayLibraries();
+
+        new Setting(containerEl)
+            .setName('Automatically refresh user module')
+            .setDesc('Reload components when files in components folder are created, changed, renamed or deleted')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoRefresh)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoRefresh = value;
+                    await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl)
+            .setName('Update references on rename')
+            .setDesc('When file or folder is renamed, offer to update Emera code blocks that reference it')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.promptOnRename)
+                .onChange(async (value) => {
+                    this.plugin.settings.promptOnRename = value;
+                    await this.plugin.saveSettings();
+                }));
+        this.displayTrust();
         new Setting(containerEl)
             .setName('Refresh user module')
             .setDesc('Click this if you made any changes to any exported members after opening Obsidian')
@@ -35,4 +56,118 @@ export class SettingTab extends PluginSettingTab {
                 })
             );
     }
+
+    displayLibraries() {
+        const { containerEl } = this;
+        const updateLibraries = async (libraries: ComponentLibrary[]) => {
+            this.plugin.settings.libraries = libraries;
+            await this.plugin.saveSettings();
+        };
+
+        new Setting(containerEl)
+            .setName('Additional component libraries')
+            .setDesc('Each library is loaded from its own entry file (or folder with index file). If namespace is set, '
+                + 'library exports are available under it, e.g. <team.Kanban />, otherwise they are merged with components from components folder')
+            .addButton(button => button
+                .setButtonText('Add library')
+                .onClick(async () => {
+                    await updateLibraries([...this.plugin.settings.libraries, { entry: '', namespace: '' }]);
+                    this.display();
+                })
+            );
+
+        this.plugin.settings.libraries.forEach((library, index) => {
+            const updateLibrary = (patch: Partial<ComponentLibrary>) => updateLibraries(
+                this.plugin.settings.libraries.map((lib, i) => i === index ? { ...lib, ...patch } : lib)
+            );
+
+            new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Shared/Components/index.tsx')
+                    .setValue(library.entry)
+                    .onChange(value => updateLibrary({ entry: value })))
+                .addText(text => text
+                    .setPlaceholder('Namespace (optional)')
+                    .setValue(library.namespace)
+                    .onChange(value => updateLibrary({ namespace: value.trim() })))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove library')
+                    .onClick(async () => {
+                        await updateLibraries(this.plugin.settings.libraries.filter((_, i) => i !== index));
+                        this.display();
+                    }));
+        });
+    }
+
+    displayTrust() {
+        const { containerEl } = this;
+        new Setting(containerEl)
+            .setName('Require trust to run code from notes')
+            .setDesc('Emera blocks run only in trusted folders or after you approve them. Approval is tied to block content, '
+                + 'so edited block should be approved again')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.requireTrust)
+                .onChange(async (value) => {
+                    this.plugin.settings.requireTrust = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshEditors({ onlyWithWidgets: true });
+                    this.display();
+                }));
+
+        if (!this.plugin.settings.requireTrust) return;
+
+        const updateFolders = async (folders: string[]) => {
+            this.plugin.settings.trustedFolders = folders;
+            await this.plugin.saveSettings();
+        };
+
+        new Setting(containerEl)
+            .setName('Trusted folders')
+            .setDesc('Code from notes in these folders always runs. Use / to trust the whole vault')
+            .addButton(button => button
+                .setButtonText('Add folder')
+                .onClick(async () => {
+                    await updateFolders([...this.plugin.settings.trustedFolders, '']);
+                    this.display();
+                })
+            );
+
+        this.plugin.settings.trustedFolders.forEach((folder, index) => {
+            new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Dashboards')
+                    .setValue(folder)
+                    .onChange(value => updateFolders(
+                        this.plugin.settings.trustedFolders.map((f, i) => i === index ? value : f)
+                    )))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove folder')
+                    .onClick(async () => {
+                        await updateFolders(this.plugin.settings.trustedFolders.filter((_, i) => i !== index));
+                        this.display();
+                    }));
+        });
+
+        const notes = Object.entries(this.plugin.settings.trustedNotes);
+        new Setting(containerEl)
+            .setName('Trusted notes')
+            .setDesc(notes.length
+                ? 'Notes you trusted with "Always trust this note". Removing note here requires approving its blocks again'
+                : 'You haven\'t trusted any notes yet');
+
+        notes.forEach(([path, hashes]) => {
+            new Setting(containerEl)
+                .setName(path)
+                .setDesc(`${hashes.length} approved ${hashes.length === 1 ? 'block' : 'blocks'}`)
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Revoke trust')
+                    .onClick(async () => {
+                        await this.plugin.trust.untrustNote(path);
+                        this.display();
+                    }));
+        });
+    }
 }
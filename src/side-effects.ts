@@ -1,11 +1,11 @@
-import { EMERA_GET_SCOPE, EMERA_JS_LANG_NAME, EMERA_JSX_LANG_NAME, EMERA_JSX_SHORTHAND_LANG_NAME, EMERA_MODULES, EMERA_ROOT_SCOPE } from "./consts";
+import { EMERA_GET_SCOPE, EMERA_JSX_SHORTHAND_LANG_NAME, EMERA_MODULES, EMERA_ROOT_SCOPE, EMERA_STYLES } from "./consts";
 import { registerCodemirrorMode } from './utils';
 import { exposedModules } from "./exposed-modules";
 import { getScope, ScopeNode } from './scope';
+import { styleRegistry } from './styles';
 
-// Add syntax highlight for emera
-registerCodemirrorMode(EMERA_JSX_LANG_NAME, 'jsx');
-registerCodemirrorMode(EMERA_JS_LANG_NAME, 'javascript');
+// Add syntax highlight for shorthand blocks. Code of `emera` and `emjs` blocks is highlighted by editor extension
+// (see emera-language.ts), legacy modes would highlight it second time
 registerCodemirrorMode(EMERA_JSX_SHORTHAND_LANG_NAME, 'markdown');
 
 // Expose modules
@@ -24,3 +24,4 @@ registerCodemirrorMode(EMERA_JSX_SHORTHAND_LANG_NAME, 'markdown');
 
 (window as any)[EMERA_ROOT_SCOPE] = new ScopeNode('root');
 (window as any)[EMERA_GET_SCOPE] = getScope;
+(window as any)[EMERA_STYLES] = styleRegistry;
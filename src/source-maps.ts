@@ -0,0 +1,175 @@
+import { App, MarkdownView } from 'obsidian';
+
+export type SourceMap = {
+    version: number,
+    names: string[],
+    sources: string[],
+    sourcesContent?: (string | null)[],
+    mappings: string,
+};
+
+// Where code of module came from. Bundles don't need it, as their source maps point to vault files directly
+export type SourceOrigin = {
+    // Vault path of note with code block
+    path: string,
+    // Number of note lines preceding first line of transpiled source, null if position of code isn't known
+    lineOffset: number | null,
+};
+
+// [generated column, source index, original line, original column], all zero-based
+type Segment = [number, number, number, number];
+
+type RegisteredModule = {
+    map: SourceMap,
+    origin: SourceOrigin | null,
+    lines: Segment[][] | null,
+};
+
+export type CodeFrameLine = {
+    line: number,
+    text: string,
+    highlighted: boolean,
+};
+
+export type MappedStackFrame = {
+    functionName: string | null,
+    // Vault path
+    path: string,
+    // One-based, null if we know only file code came from
+    line: number | null,
+    column: number,
+    codeFrame: CodeFrameLine[] | null,
+};
+
+// Code blocks are evaluated on every render, so we keep only most recent modules
+const MAX_REGISTERED_MODULES = 500;
+const modules = new Map<string, RegisteredModule>();
+let modulesCounter = 0;
+
+// Used as `sourceURL` of evaluated module, so stack traces reference it instead of huge data: URL
+export const createModuleUrl = () => `emera-module-${++modulesCounter}.js`;
+
+export const registerSourceMap = (url: string, map: SourceMap, origin: SourceOrigin | null = null) => {
+    modules.set(url, { map, origin, lines: null });
+    if (modules.size > MAX_REGISTERED_MODULES) {
+        modules.delete(modules.keys().next().value!);
+    }
+};
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const base64Values = Object.fromEntries(Array.from(base64Chars).map((char, index) => [char, index]));
+
+const decodeVlq = (segment: string) => {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = base64Values[char];
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+};
+
+const decodeMappings = (mappings: string) => {
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    return mappings.split(';').map((line) => {
+        let generatedColumn = 0;
+        const segments: Segment[] = [];
+        line.split(',').filter(Boolean).forEach((segment) => {
+            const values = decodeVlq(segment);
+            generatedColumn += values[0];
+            // Segments without source don't map to anything
+            if (values.length < 4) return;
+            sourceIndex += values[1];
+            originalLine += values[2];
+            originalColumn += values[3];
+            segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+        });
+        return segments;
+    });
+};
+
+// Rollup writes sources relative to output file, which is at the vault root for us
+const normalizeSourcePath = (source: string) => source.replace(/^(\.\.?\/)+/, '');
+
+const getCodeFrame = (source: string | null | undefined, line: number, lineOffset: number | null): CodeFrameLine[] | null => {
+    if (!source) return null;
+    const lines = source.split('\n');
+    const index = line - 1;
+    if (index < 0 || index >= lines.length) return null;
+    const start = Math.max(0, index - 2);
+    const end = Math.min(lines.length, index + 3);
+    return lines.slice(start, end).map((text, i) => ({
+        line: start + i + 1 + (lineOffset ?? 0),
+        text,
+        highlighted: start + i === index,
+    }));
+};
+
+const mapPosition = (url: string, line: number, column: number) => {
+    const module = modules.get(url);
+    if (!module) return null;
+    if (!module.lines) module.lines = decodeMappings(module.map.mappings);
+
+    const segments = module.lines[line - 1];
+    if (!segments?.length) return null;
+    const segment = segments.reduce<Segment | null>((found, segment) => {
+        return segment[0] <= column - 1 ? segment : found;
+    }, null) ?? segments[0];
+
+    const [, sourceIndex, originalLine, originalColumn] = segment;
+    const { origin, map } = module;
+    const lineOffset = origin ? origin.lineOffset : 0;
+    return {
+        path: origin?.path ?? normalizeSourcePath(map.sources[sourceIndex]),
+        line: lineOffset === null ? null : originalLine + 1 + lineOffset,
+        column: originalColumn + 1,
+        codeFrame: getCodeFrame(map.sourcesContent?.[sourceIndex], originalLine + 1, lineOffset),
+    };
+};
+
+const stackFrameRegex = /^\s*at (?:(?:async )?(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+
+// Maps frames of V8 stack trace which belong to Emera modules. Other frames (React, Obsidian) are dropped
+export const mapErrorStack = (error: unknown): MappedStackFrame[] => {
+    if (!(error instanceof Error) || !error.stack) return [];
+    return error.stack.split('\n').flatMap((line) => {
+        const match = stackFrameRegex.exec(line);
+        if (!match) return [];
+        const [, functionName, url, frameLine, frameColumn] = match;
+        const position = mapPosition(url, Number(frameLine), Number(frameColumn));
+        return position ? [{ functionName: functionName ?? null, ...position }] : [];
+    });
+};
+
+// Opens notes at given line, other files are opened in default app as Obsidian can't display them
+export const openSourceLocation = async (app: App, path: string, line: number | null) => {
+    const file = app.vault.getFileByPath(path);
+    if (!file) return;
+
+    if (file.extension !== 'md') {
+        (app as any).openWithDefaultApp(file.path);
+        return;
+    }
+
+    const leaf = app.workspace.getLeaf(false);
+    if (line === null) {
+        await leaf.openFile(file, { active: true });
+        return;
+    }
+    await leaf.openFile(file, { active: true, eState: { line: line - 1 } });
+    if (leaf.view instanceof MarkdownView) {
+        const position = { line: line - 1, ch: 0 };
+        leaf.view.editor.setCursor(position);
+        leaf.view.editor.scrollIntoView({ from: position, to: position }, true);
+    }
+};
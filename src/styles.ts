@@ -0,0 +1,157 @@
+import { hashString } from './utils';
+
+// Keeps track of styles injected by user modules. Each style belongs to bundle (owner) which imported it, so
+// when bundle is reloaded we can replace its styles instead of stacking them, and remove everything on unload
+export class StyleRegistry {
+    private owners = new Map<string, Map<string, HTMLStyleElement>>();
+
+    inject = (owner: string, id: string, css: string) => {
+        let styles = this.owners.get(owner);
+        if (!styles) {
+            styles = new Map();
+            this.owners.set(owner, styles);
+        }
+
+        const existing = styles.get(id);
+        if (existing) {
+            existing.textContent = css;
+            return;
+        }
+
+        const style = document.createElement('style');
+        style.dataset.emeraOwner = owner;
+        style.dataset.emeraId = id;
+        style.textContent = css;
+        document.head.appendChild(style);
+        styles.set(id, style);
+    };
+
+    removeOwner = (owner: string) => {
+        this.owners.get(owner)?.forEach(style => style.remove());
+        this.owners.delete(owner);
+    };
+
+    // Drops styles of bundles which don't exist anymore (e.g. library was removed in settings)
+    retainOwners = (owners: string[]) => {
+        Array.from(this.owners.keys())
+            .filter(owner => !owners.includes(owner))
+            .forEach(owner => this.removeOwner(owner));
+    };
+
+    removeAll = () => {
+        Array.from(this.owners.keys()).forEach(owner => this.removeOwner(owner));
+    };
+}
+
+export const styleRegistry = new StyleRegistry();
+
+export const isCssModule = (path: string) => path.endsWith('.module.css');
+
+const isIdentStart = (char: string | undefined) => !!char && /[A-Za-z_\-\u0080-\uFFFF]/.test(char);
+const isIdentChar = (char: string | undefined) => !!char && /[\w\-\u0080-\uFFFF]/.test(char);
+
+const skipString = (source: string, start: number) => {
+    const quote = source[start];
+    let i = start + 1;
+    while (i < source.length && source[i] !== quote) {
+        i += source[i] === '\\' ? 2 : 1;
+    }
+    return i + 1;
+};
+
+const findClosingParen = (source: string, start: number) => {
+    let depth = 0;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (char === '"' || char === "'") {
+            i = skipString(source, i) - 1;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return source.length;
+};
+
+const scopeSelector = (selector: string, rename: (name: string) => string): string => {
+    let result = '';
+    let i = 0;
+    while (i < selector.length) {
+        const char = selector[i];
+        if (selector.startsWith('/*', i)) {
+            const end = selector.indexOf('*/', i + 2);
+            const next = end === -1 ? selector.length : end + 2;
+            result += selector.slice(i, next);
+            i = next;
+        } else if (char === '"' || char === "'") {
+            const end = skipString(selector, i);
+            result += selector.slice(i, end);
+            i = end;
+        } else if (char === '[') {
+            // Attribute selectors might contain dots in values
+            const end = selector.indexOf(']', i);
+            const next = end === -1 ? selector.length : end + 1;
+            result += selector.slice(i, next);
+            i = next;
+        } else if (selector.startsWith(':global(', i) || selector.startsWith(':local(', i)) {
+            const isGlobal = selector.startsWith(':global(', i);
+            const open = selector.indexOf('(', i);
+            const close = findClosingParen(selector, open);
+            const inner = selector.slice(open + 1, close);
+            result += isGlobal ? inner : scopeSelector(inner, rename);
+            i = close + 1;
+        } else if (char === '.' && isIdentStart(selector[i + 1]) && !/\d/.test(selector[i + 1])) {
+            let end = i + 1;
+            while (isIdentChar(selector[end])) end++;
+            result += '.' + rename(selector.slice(i + 1, end));
+            i = end;
+        } else {
+            result += char;
+            i++;
+        }
+    }
+    return result;
+};
+
+// Rewrites class selectors of CSS module into unique names. Only selectors are touched, declarations and at-rule
+// preludes (e.g. media queries) are kept as is. Use `:global(.name)` to keep class name unscoped
+export const compileCssModule = (css: string, path: string) => {
+    const suffix = hashString(path).slice(0, 6);
+    const classes: Record<string, string> = {};
+    const rename = (name: string) => {
+        if (!Object.hasOwn(classes, name)) classes[name] = `${name}_${suffix}`;
+        return classes[name];
+    };
+
+    let result = '';
+    // Start of text which isn't processed yet. It's either selector (if followed by `{`) or declarations
+    let segmentStart = 0;
+    let i = 0;
+    while (i < css.length) {
+        const char = css[i];
+        if (css.startsWith('/*', i)) {
+            const end = css.indexOf('*/', i + 2);
+            i = end === -1 ? css.length : end + 2;
+        } else if (char === '"' || char === "'") {
+            i = skipString(css, i);
+        } else if (char === '(') {
+            // Skip functions, so `url(image.png)` or `;` inside of them won't confuse us
+            i = findClosingParen(css, i) + 1;
+        } else if (char === '{') {
+            const prelude = css.slice(segmentStart, i);
+            result += prelude.trimStart().startsWith('@') ? prelude : scopeSelector(prelude, rename);
+            result += char;
+            segmentStart = ++i;
+        } else if (char === ';' || char === '}') {
+            result += css.slice(segmentStart, i + 1);
+            segmentStart = ++i;
+        } else {
+            i++;
+        }
+    }
+    result += css.slice(segmentStart);
+
+    return { css: result, classes };
+};
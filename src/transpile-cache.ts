@@ -0,0 +1,141 @@
+import { normalizePath } from 'obsidian';
+import * as Babel from '@babel/standalone';
+import type { EmeraPlugin } from './plugin';
+import type { SourceMap } from './source-maps';
+import { hashString } from './utils';
+
+const CACHE_FILE_NAME = 'transpile-cache.json';
+// Sizes are in characters, roughly matching memory footprint of strings
+const MAX_MEMORY_SIZE = 10_000_000;
+const MAX_DISK_SIZE = 3_000_000;
+// Bump when shape of cache entries changes
+const CACHE_FORMAT = 2;
+
+export type TranspileResult = {
+    code: string,
+    map: SourceMap | null,
+    // Scope identifiers transpiled code reads
+    reads: string[],
+};
+
+type CacheEntry = TranspileResult & {
+    source: string,
+    // Serialized transform options (scope id, import map, etc), output depends on them as much as on source
+    variant: string,
+};
+
+type CacheFile = {
+    version: string,
+    entries: [string, CacheEntry][],
+};
+
+const getEntrySize = (entry: CacheEntry) => {
+    return entry.source.length + entry.variant.length + entry.code.length + (entry.map?.mappings.length ?? 0) + entry.reads.join('').length;
+};
+
+// Transpiled code depends on both Emera and Babel, so cache is dropped when either of them is updated
+// @ts-ignore not included in package types, but it's there!
+const getCacheVersion = (plugin: EmeraPlugin) => `${CACHE_FORMAT}:${plugin.manifest.version}:${Babel.version}`;
+
+// Content-addressed cache of Babel output. Entries are kept in insertion order, and are moved to the end on each
+// hit, so the first entry is always the least recently used one
+export class TranspileCache {
+    private entries = new Map<string, CacheEntry>();
+    private size = 0;
+    private dirty = false;
+
+    private getKey(source: string, variant: string) {
+        return `${hashString(source)}${hashString(variant)}${source.length.toString(36)}`;
+    }
+
+    get(source: string, variant: string): TranspileResult | null {
+        const key = this.getKey(source, variant);
+        const entry = this.entries.get(key);
+        // Hash might collide, so we compare inputs too
+        if (!entry || entry.source !== source || entry.variant !== variant) return null;
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    set(source: string, variant: string, result: TranspileResult) {
+        const key = this.getKey(source, variant);
+        this.delete(key);
+        const entry = { ...result, source, variant };
+        this.entries.set(key, entry);
+        this.size += getEntrySize(entry);
+        this.dirty = true;
+        this.evict(MAX_MEMORY_SIZE);
+    }
+
+    private delete(key: string) {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.entries.delete(key);
+        this.size -= getEntrySize(entry);
+    }
+
+    private evict(maxSize: number) {
+        for (const key of this.entries.keys()) {
+            if (this.size <= maxSize) break;
+            this.delete(key);
+        }
+    }
+
+    private getFilePath(plugin: EmeraPlugin) {
+        return normalizePath(`${plugin.manifest.dir}/${CACHE_FILE_NAME}`);
+    }
+
+    async load(plugin: EmeraPlugin) {
+        const path = this.getFilePath(plugin);
+        const adapter = plugin.app.vault.adapter;
+        if (!(await adapter.exists(path))) return;
+
+        try {
+            const file: CacheFile = JSON.parse(await adapter.read(path));
+            if (file.version !== getCacheVersion(plugin)) {
+                await adapter.remove(path);
+                return;
+            }
+            file.entries.forEach(([key, entry]) => {
+                // Source is stored only once on disk, see save()
+                if (entry.map) entry.map.sourcesContent = [entry.source];
+                if (this.entries.has(key)) return;
+                this.entries.set(key, entry);
+                this.size += getEntrySize(entry);
+            });
+            this.evict(MAX_MEMORY_SIZE);
+        } catch (err) {
+            console.log(`Couldn't read transpile cache, it will be rebuilt`, err);
+        }
+    }
+
+    async save(plugin: EmeraPlugin) {
+        if (!this.dirty) return;
+        // Cleared before writing, so entries added while write is in progress mark cache dirty again
+        this.dirty = false;
+
+        // Most recently used entries are at the end, so we go backwards until we hit the limit
+        const entries: [string, CacheEntry][] = [];
+        let size = 0;
+        for (const [key, entry] of Array.from(this.entries.entries()).reverse()) {
+            size += getEntrySize(entry);
+            if (size > MAX_DISK_SIZE) break;
+            entries.unshift([key, {
+                ...entry,
+                map: entry.map && { ...entry.map, sourcesContent: undefined },
+            }]);
+        }
+
+        const file: CacheFile = { version: getCacheVersion(plugin), entries };
+        try {
+            await plugin.app.vault.adapter.write(this.getFilePath(plugin), JSON.stringify(file));
+        } catch (err) {
+            // Cache wasn't written, so next save should try again
+            this.dirty = true;
+            throw err;
+        }
+    }
+}
+
+export const transpileCache = new TranspileCache();
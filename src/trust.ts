@@ -0,0 +1,102 @@
+import { normalizePath, TFile } from 'obsidian';
+import type { EmeraPlugin } from './plugin';
+import { BlockAttributes, EmeraBlockType, withoutBlockId } from './processors/markdown-blocks';
+import { sha256 } from './utils';
+
+// Everything from block's info string which affects how block runs, besides its type
+export type BlockTrustInfo = {
+    shortcutComponent?: string,
+    attributes?: BlockAttributes,
+};
+
+// Block which was shown to user for approval
+export type ApprovedBlock = BlockTrustInfo & {
+    type: EmeraBlockType,
+    content: string,
+};
+
+// Editor and reading mode see slightly different whitespace around block content, so we trim it. Info string is
+// hashed in parsed form, as its formatting doesn't matter, and without `id` which Emera adds to blocks by itself.
+// Shorthand blocks are approved together with component they're rendered with
+export const getBlockHash = (type: EmeraBlockType, content: string, info: BlockTrustInfo = {}) => {
+    const attributes = withoutBlockId(info.attributes) ?? {};
+    const infoLine = JSON.stringify([info.shortcutComponent ?? null, attributes]);
+    return sha256(`${type}\n${infoLine}\n${content.trim()}`);
+};
+
+const isWithinFolder = (path: string, folder: string) => {
+    const normalized = normalizePath(folder);
+    if (normalized === '/' || normalized === '') return true;
+    return path.startsWith(`${normalized}/`);
+};
+
+// Decides whether code from note is allowed to run. Notes in trusted folders can run anything, other notes can
+// run only blocks which were approved by user. Approval is tied to block content, so edited block needs approval again
+export const createEmeraTrust = (plugin: EmeraPlugin) => {
+    // Blocks approved with "Run once", they're trusted until Obsidian is restarted
+    const sessionApprovals = new Set<string>();
+
+    const getApprovalKey = (path: string | null, hash: string) => `${path ?? ''}\0${hash}`;
+
+    const isFolderTrusted = (path: string) => {
+        return plugin.settings.trustedFolders.some(folder => folder.trim() && isWithinFolder(path, folder.trim()));
+    };
+
+    const isTrusted = async (file: TFile | null, type: EmeraBlockType, content: string, info?: BlockTrustInfo) => {
+        if (!plugin.settings.requireTrust) return true;
+        if (file && isFolderTrusted(file.path)) return true;
+
+        const hash = await getBlockHash(type, content, info);
+        if (sessionApprovals.has(getApprovalKey(file?.path ?? null, hash))) return true;
+        return !!file && (plugin.settings.trustedNotes[file.path] ?? []).includes(hash);
+    };
+
+    const runOnce = async (file: TFile | null, type: EmeraBlockType, content: string, info?: BlockTrustInfo) => {
+        sessionApprovals.add(getApprovalKey(file?.path ?? null, await getBlockHash(type, content, info)));
+    };
+
+    // Approves blocks of the note user was asked about. Note isn't read again, as it might have changed since then
+    const trustNote = async (file: TFile, blocks: ApprovedBlock[]) => {
+        const hashes = await Promise.all(blocks.map(block => getBlockHash(block.type, block.content, block)));
+        plugin.settings.trustedNotes = {
+            ...plugin.settings.trustedNotes,
+            [file.path]: Array.from(new Set([...(plugin.settings.trustedNotes[file.path] ?? []), ...hashes])),
+        };
+        await plugin.saveSettings();
+    };
+
+    const untrustNote = async (path: string) => {
+        const { [path]: _, ...rest } = plugin.settings.trustedNotes;
+        plugin.settings.trustedNotes = rest;
+        await plugin.saveSettings();
+    };
+
+    const renameNote = async (oldPath: string, newPath: string) => {
+        const entries = Object.entries(plugin.settings.trustedNotes);
+        if (!entries.some(([path]) => path === oldPath || path.startsWith(`${oldPath}/`))) return;
+        plugin.settings.trustedNotes = Object.fromEntries(entries.map(([path, hashes]) => {
+            if (path === oldPath || path.startsWith(`${oldPath}/`)) return [newPath + path.slice(oldPath.length), hashes];
+            return [path, hashes];
+        }));
+        await plugin.saveSettings();
+    };
+
+    const deleteNote = async (deletedPath: string) => {
+        const entries = Object.entries(plugin.settings.trustedNotes);
+        const remaining = entries.filter(([path]) => path !== deletedPath && !path.startsWith(`${deletedPath}/`));
+        if (remaining.length === entries.length) return;
+        plugin.settings.trustedNotes = Object.fromEntries(remaining);
+        await plugin.saveSettings();
+    };
+
+    return {
+        isTrusted,
+        runOnce,
+        trustNote,
+        untrustNote,
+        renameNote,
+        deleteNote,
+    };
+};
+
+export type EmeraTrust = ReturnType<typeof createEmeraTrust>;
@@ -0,0 +1,46 @@
+import obsidianTypes from 'types:obsidian/obsidian.d.ts';
+import reactTypes from 'types:@types/react/index.d.ts';
+import reactGlobalTypes from 'types:@types/react/global.d.ts';
+import reactJsxRuntimeTypes from 'types:@types/react/jsx-runtime.d.ts';
+import reactDomTypes from 'types:@types/react-dom/index.d.ts';
+import csstypeTypes from 'types:csstype/index.d.ts';
+import propTypesTypes from 'types:@types/prop-types/index.d.ts';
+import codemirrorStateTypes from 'types:@codemirror/state/dist/index.d.ts';
+import codemirrorViewTypes from 'types:@codemirror/view/dist/index.d.ts';
+import styleModTypes from 'types:style-mod/src/style-mod.d.ts';
+import codemirrorLegacyTypes from 'types:@types/codemirror/index.d.ts';
+import momentTypes from 'types:moment/ts3.1-typings/moment.d.ts';
+
+// Declarations of exposed modules which Emera is built against. They're written into components folder, so
+// editor knows real types of `obsidian` and `react` instead of `any`. Modules they import are included too,
+// otherwise types like `CSSProperties` or `Editor` would silently become `any`. Paths are relative to
+// declarations folder
+export const typeDefinitionFiles: Record<string, string> = {
+    'obsidian/obsidian.d.ts': obsidianTypes,
+    'react/index.d.ts': reactTypes,
+    'react/global.d.ts': reactGlobalTypes,
+    'react/jsx-runtime.d.ts': reactJsxRuntimeTypes,
+    'react-dom/index.d.ts': reactDomTypes,
+    'csstype/index.d.ts': csstypeTypes,
+    'prop-types/index.d.ts': propTypesTypes,
+    '@codemirror/state/index.d.ts': codemirrorStateTypes,
+    '@codemirror/view/index.d.ts': codemirrorViewTypes,
+    'style-mod/index.d.ts': styleModTypes,
+    'codemirror/index.d.ts': codemirrorLegacyTypes,
+    'moment/index.d.ts': momentTypes,
+};
+
+// Module specifier to its declaration file, without extension as expected by `paths` of tsconfig
+export const typedModules: Record<string, string> = {
+    'obsidian': 'obsidian/obsidian',
+    'react': 'react/index',
+    'react/jsx-runtime': 'react/jsx-runtime',
+    'react-dom': 'react-dom/index',
+    'csstype': 'csstype/index',
+    'prop-types': 'prop-types/index',
+    '@codemirror/state': '@codemirror/state/index',
+    '@codemirror/view': '@codemirror/view/index',
+    'style-mod': 'style-mod/index',
+    'codemirror': 'codemirror/index',
+    'moment': 'moment/index',
+};
@@ -0,0 +1,225 @@
+import { normalizePath } from 'obsidian';
+import type { EmeraPlugin } from './plugin';
+import { exposedModules } from './exposed-modules';
+import { ImportMap, loadImportMap } from './import-map';
+import { typeDefinitionFiles, typedModules } from './type-definitions';
+
+export const TYPINGS_FILE_NAME = 'emera-env.d.ts';
+const BASE_TSCONFIG_FILE_NAME = 'tsconfig.emera.json';
+const TSCONFIG_FILE_NAME = 'tsconfig.json';
+// Hidden, so Obsidian doesn't index shipped declarations
+const TYPE_DEFINITIONS_FOLDER_NAME = '.emera-types';
+
+const reservedWords = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+    'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+    'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+]);
+
+// Declarations for our own module are written by hand, so they're as precise as possible. Keep them in sync
+// with what src/emera-module/index.ts exports
+const emeraModuleDeclarations = `declare module 'emera' {
+    import type { App, CachedMetadata, TFile } from 'obsidian';
+    import type { ReactNode } from 'react';
+
+    type SetStateAction<T> = T | ((prev: T) => T);
+
+    export type EmeraBlockInfo = {
+        file: TFile,
+        index: number,
+        id: string | null,
+        lineStart: number,
+        lineEnd: number,
+        source: string,
+    };
+
+    export type QueryPage<F extends Record<string, any> = Record<string, any>> = {
+        file: TFile,
+        path: string,
+        name: string,
+        folder: string,
+        tags: string[],
+        frontmatter: F,
+        links: string[],
+        ctime: number,
+        mtime: number,
+    };
+
+    export type QueryTask = {
+        file: TFile,
+        text: string,
+        status: string,
+        completed: boolean,
+        line: number,
+    };
+
+    export type QueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'exists';
+
+    export interface Query<F extends Record<string, any> = Record<string, any>> {
+        from(folder: string): Query<F>;
+        withTag(tag: string): Query<F>;
+        withoutTag(tag: string): Query<F>;
+        where(predicate: (page: QueryPage<F>) => boolean): Query<F>;
+        where(field: string, value: any): Query<F>;
+        where(field: string, operator: QueryOperator, value?: any): Query<F>;
+        linksTo(file: TFile | string): Query<F>;
+        linkedFrom(file: TFile | string): Query<F>;
+        sortBy(fieldOrGetter: string | ((page: QueryPage<F>) => any), direction?: 'asc' | 'desc'): Query<F>;
+        limit(count: number): Query<F>;
+        run(): QueryPage<F>[];
+        first(): QueryPage<F> | null;
+        count(): number;
+        tasks(): TaskQuery;
+    }
+
+    export interface TaskQuery {
+        where(predicate: (task: QueryTask) => boolean): TaskQuery;
+        completed(completed?: boolean): TaskQuery;
+        run(): Promise<QueryTask[]>;
+    }
+
+    export type EmeraContextType = {
+        file: TFile | null,
+        block: EmeraBlockInfo | null,
+        frontmatter: Record<string, any> | null | undefined,
+        plugin: any,
+        storage: any,
+        app: App,
+    };
+
+    export const Markdown: (props: { children: string, as?: string, [prop: string]: any }) => ReactNode;
+    export function useEmeraContext(): EmeraContextType;
+
+    export function useStorage<T>(key: string, defaultValue: T): [T, (value: SetStateAction<T>) => void];
+    export function useNoteStorage<T>(key: string, defaultValue: T): [T, (value: SetStateAction<T>) => void];
+    export function useBlockStorage<T>(key: string, defaultValue: T): [T, (value: SetStateAction<T>) => void];
+
+    export function useBlockSource(): [string, (source: SetStateAction<string>) => Promise<void>];
+    export function useBlockData<T>(defaultValue: T): [T, (value: SetStateAction<T>) => Promise<void>];
+
+    export function useActiveFile(): TFile | null;
+    export function useFile(path: string | null | undefined): TFile | null;
+    export function useFileContent(file: TFile | string | null | undefined): string | null;
+    export function useMetadataCache(file: TFile | string | null | undefined): CachedMetadata | null;
+    export function useFrontmatter(): Record<string, any> | undefined;
+    export function useBacklinks(file: TFile | string | null | undefined): TFile[];
+    export function useVaultFiles(filter?: (file: TFile) => boolean): TFile[];
+    export function useQuery<F extends Record<string, any> = Record<string, any>>(build: (query: Query<F>) => Query<F>, deps?: unknown[]): QueryPage<F>[];
+    export function useQuery(build: (query: Query) => TaskQuery, deps?: unknown[]): QueryTask[];
+}`;
+
+const globalsDeclarations = `// Root scope
+declare const app: import('obsidian').App;
+declare const modules: Record<string, any>;
+declare const query: <F extends Record<string, any> = Record<string, any>>() => import('emera').Query<F>;
+
+// Page scope
+declare const file: import('obsidian').TFile | null;
+declare const frontmatter: Record<string, any> | undefined;
+
+declare module '*.module.css' {
+    const classes: Record<string, string>;
+    export default classes;
+}
+
+// Exports of JS blocks in other notes aren't known ahead of time
+declare module 'note:*' {
+    const exports: any;
+    export = exports;
+}`;
+
+// Modules without shipped declarations are described by their runtime shape. This gives autocompletion for
+// exported names, while values themselves are typed as any
+const describeModule = (name: string, module: Record<string, any>) => {
+    const lines = Object.keys(module)
+        .filter(key => /^[A-Za-z_$][\w$]*$/.test(key) && !key.startsWith('__') && !reservedWords.has(key))
+        .sort()
+        .flatMap((key) => {
+            const declarations = [`    export const ${key}: any;`];
+            // Most likely it's a class, so allow using it in type positions too
+            if (/^[A-Z]/.test(key)) declarations.push(`    export type ${key} = any;`);
+            return declarations;
+        });
+
+    if ('default' in module) {
+        lines.push(`    const _default: any;`, `    export default _default;`);
+    }
+
+    return `declare module ${JSON.stringify(name)} {\n${lines.join('\n')}\n}`;
+};
+
+export const generateTypingsContent = () => {
+    const modules = Object.entries(exposedModules)
+        // Ambient declaration would shadow real types of module
+        .filter(([name]) => name !== 'emera' && !(name in typedModules))
+        .map(([name, module]) => describeModule(name, module as Record<string, any>));
+
+    return [
+        `// This file is generated by Emera, don't edit it manually. Run "Generate TypeScript declarations" command to update it.`,
+        emeraModuleDeclarations,
+        ...modules,
+        globalsDeclarations,
+    ].join('\n\n') + '\n';
+};
+
+// Import map targets are vault paths, so we point baseUrl to vault root
+const getImportMapPaths = (folder: string, importMap: ImportMap) => {
+    const depth = folder.split('/').filter(Boolean).length;
+    const paths: Record<string, string[]> = {};
+    Object.entries(importMap.exact).forEach(([specifier, target]) => {
+        paths[specifier] = [target.replace(/\/$/, '')];
+    });
+    importMap.prefixes.forEach(([prefix, target]) => {
+        paths[`${prefix}*`] = [`${target}*`];
+    });
+    Object.entries(typedModules).forEach(([specifier, file]) => {
+        paths[specifier] ??= [`${folder}/${TYPE_DEFINITIONS_FOLDER_NAME}/${file}`];
+    });
+    return {
+        baseUrl: depth ? new Array(depth).fill('..').join('/') : '.',
+        paths,
+    };
+};
+
+const getBaseTsconfig = (folder: string, importMap: ImportMap) => ({
+    compilerOptions: {
+        ...getImportMapPaths(folder, importMap),
+        target: 'ES2020',
+        module: 'ESNext',
+        moduleResolution: 'node',
+        jsx: 'react-jsx',
+        lib: ['DOM', 'ES2022'],
+        allowJs: true,
+        allowSyntheticDefaultImports: true,
+        isolatedModules: true,
+        strict: true,
+        noImplicitAny: false,
+        skipLibCheck: true,
+        noEmit: true,
+    },
+    include: ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx'],
+});
+
+export const writeTypings = async (plugin: EmeraPlugin) => {
+    const folder = normalizePath(plugin.settings.componentsFolder);
+    const adapter = plugin.app.vault.adapter;
+    if (!(await adapter.exists(folder))) {
+        await plugin.app.vault.createFolder(folder);
+    }
+
+    await adapter.write(`${folder}/${TYPINGS_FILE_NAME}`, generateTypingsContent());
+    for (const [file, content] of Object.entries(typeDefinitionFiles)) {
+        const path = normalizePath(`${folder}/${TYPE_DEFINITIONS_FOLDER_NAME}/${file}`);
+        const parent = path.slice(0, path.lastIndexOf('/'));
+        if (!(await adapter.exists(parent))) await adapter.mkdir(parent);
+        await adapter.write(path, content);
+    }
+    const importMap = await loadImportMap(plugin);
+    await adapter.write(`${folder}/${BASE_TSCONFIG_FILE_NAME}`, JSON.stringify(getBaseTsconfig(folder, importMap), null, 4));
+
+    // User might want to adjust config, so we create it only once and keep everything we manage in base config
+    const tsconfigPath = `${folder}/${TSCONFIG_FILE_NAME}`;
+    if (!(await adapter.exists(tsconfigPath))) {
+        await adapter.write(tsconfigPath, JSON.stringify({ extends: `./${BASE_TSCONFIG_FILE_NAME}` }, null, 4));
+    }
+};
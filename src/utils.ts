@@ -15,3 +15,20 @@ export const registerCodemirrorMode = (name: string, original: string) => {
     CodeMirror.defineMode(name, (config: any) => CodeMirror.getMode(config, original));
     CodeMirror.defineMIME(`text/x-${name}`, 'jsx');
 };
+
+export const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Fast non-cryptographic hash (FNV-1a), suitable for generating short stable identifiers
+export const hashString = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36).padStart(7, '0');
+};
+
+export const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
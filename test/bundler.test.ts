@@ -0,0 +1,74 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { EmeraPlugin } from '../src/plugin';
+import { bundleFile } from '../src/bundler';
+import { EMERA_ROOT_SCOPE } from '../src/consts';
+import { ScopeNode } from '../src/scope';
+
+const createPlugin = (files: Record<string, string>) => {
+    const plugin = {
+        settings: { componentsFolder: 'Components', libraries: [] },
+        app: {
+            vault: {
+                adapter: {
+                    exists: async (path: string) => path in files,
+                    read: async (path: string) => files[path],
+                    write: async (path: string, content: string) => {
+                        files[path] = content;
+                    },
+                },
+            },
+        },
+    } as unknown as EmeraPlugin;
+    return { plugin, files };
+};
+
+const createComponents = () => ({
+    'Components/index.js': `export * from './Button.jsx';\nexport * from './utils.js';`,
+    'Components/Button.jsx': `import { color } from './theme.js';\nexport const Button = () => <button style={{ color }} />;`,
+    'Components/theme.js': `export const color = 'red';`,
+    'Components/utils.js': `export const sum = (a, b) => a + b;`,
+});
+
+describe('bundleFile', () => {
+    beforeAll(() => {
+        // Set by side-effects.ts in plugin, transpiled code is tied to root scope
+        (window as any)[EMERA_ROOT_SCOPE] = new ScopeNode('root');
+    });
+
+    it('rebuilds changed modules and modules importing them', async () => {
+        const { plugin, files } = createPlugin(createComponents());
+        const first = await bundleFile(plugin, 'Components/index.js');
+        expect(first.report.rebuilt.sort()).toEqual([
+            'Components/Button.jsx',
+            'Components/index.js',
+            'Components/theme.js',
+            'Components/utils.js',
+        ]);
+
+        files['Components/theme.js'] = `export const color = 'blue';`;
+        const second = await bundleFile(plugin, 'Components/index.js');
+        expect(second.report.rebuilt.sort()).toEqual([
+            'Components/Button.jsx',
+            'Components/index.js',
+            'Components/theme.js',
+        ]);
+        expect(second.report.modules).toBe(4);
+        expect(second.code).toContain(`'blue'`);
+    });
+
+    it('reuses all modules when nothing changed', async () => {
+        const { plugin } = createPlugin(createComponents());
+        await bundleFile(plugin, 'Components/index.js');
+        const { report } = await bundleFile(plugin, 'Components/index.js');
+        expect(report.rebuilt).toEqual([]);
+    });
+
+    it('rebuilds everything when import map changes', async () => {
+        const { plugin, files } = createPlugin(createComponents());
+        await bundleFile(plugin, 'Components/index.js');
+
+        files['Components/emera-imports.json'] = JSON.stringify({ imports: { '@theme': './theme.js' } });
+        const { report } = await bundleFile(plugin, 'Components/index.js');
+        expect(report.rebuilt).toHaveLength(4);
+    });
+});
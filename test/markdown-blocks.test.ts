@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { findEmeraBlocks, getBlockId, parseBlockAttributes, scanMarkdown } from '../src/processors/markdown-blocks';
+
+describe('parseBlockAttributes', () => {
+    it('parses unquoted values as booleans, numbers and JSON', () => {
+        expect(parseBlockAttributes('a=true b=false c=null d=3 e=-1.5 f=1e3 g=[1,2] h={"x":1}')).toEqual({
+            a: true, b: false, c: null, d: 3, e: -1.5, f: 1000, g: [1, 2], h: { x: 1 },
+        });
+    });
+
+    it('keeps quoted values as strings', () => {
+        expect(parseBlockAttributes(`title="Heads up" size='3' escaped="a \\"b\\""`)).toEqual({
+            title: 'Heads up', size: '3', escaped: 'a "b"',
+        });
+    });
+
+    it('treats attributes without value as true', () => {
+        expect(parseBlockAttributes('  collapsed  type=warning ')).toEqual({ collapsed: true, type: 'warning' });
+    });
+
+    it('keeps JSON with spaces together', () => {
+        expect(parseBlockAttributes('tags=["a b", "c"] meta={ "x": "}" } next=1')).toEqual({
+            tags: ['a b', 'c'], meta: { x: '}' }, next: 1,
+        });
+    });
+
+    it('falls back to string for invalid JSON', () => {
+        expect(parseBlockAttributes('broken={oops}')).toEqual({ broken: '{oops}' });
+    });
+
+    it('returns empty object for empty text', () => {
+        expect(parseBlockAttributes('')).toEqual({});
+    });
+});
+
+describe('getBlockId', () => {
+    it('ignores missing and valueless ids', () => {
+        expect(getBlockId(undefined)).toBe(null);
+        expect(getBlockId({ id: true })).toBe(null);
+        expect(getBlockId({ id: null })).toBe(null);
+        expect(getBlockId({ id: 12 })).toBe('12');
+        expect(getBlockId({ id: 'abc' })).toBe('abc');
+    });
+});
+
+describe('findEmeraBlocks', () => {
+    it('finds fenced blocks with offsets and lines', () => {
+        const text = 'Intro\n\n```emera id=counter\n<Counter />\n```\n\n```emjs\nexport const a = 1;\n```\n';
+        const [jsx, js] = findEmeraBlocks(text);
+        expect(jsx).toMatchObject({
+            type: 'block-jsx',
+            content: '<Counter />',
+            lineStart: 2,
+            lineEnd: 4,
+            infoString: 'emera id=counter',
+            attributes: { id: 'counter' },
+        });
+        expect(text.slice(jsx.from, jsx.to)).toBe('```emera id=counter\n<Counter />\n```');
+        expect(text.slice(jsx.contentFrom, jsx.contentTo)).toBe('<Counter />');
+        expect(js).toMatchObject({ type: 'block-js', content: 'export const a = 1;', lineStart: 6, lineEnd: 8 });
+    });
+
+    it('parses shorthand component and its attributes', () => {
+        const [block] = findEmeraBlocks('```emmd:Callout type=warning\n**Careful**\n```');
+        expect(block).toMatchObject({
+            type: 'block-jsx',
+            shortcutComponent: 'Callout',
+            attributes: { type: 'warning' },
+            content: '**Careful**',
+        });
+    });
+
+    it('finds inline elements, including ones spanning lines of paragraph', () => {
+        const text = 'Sum is `emjs: 1 + 2` and\n`emera: <Badge\n/>` here';
+        const blocks = findEmeraBlocks(text);
+        expect(blocks.map(block => [block.type, block.content, block.lineStart, block.lineEnd])).toEqual([
+            ['inline-js', 'emjs: 1 + 2', 0, 0],
+            ['inline-jsx', 'emera: <Badge\n/>', 1, 2],
+        ]);
+        expect(text.slice(blocks[0].contentFrom, blocks[0].contentTo)).toBe('emjs: 1 + 2');
+    });
+
+    it('strips single space around inline content and supports longer backtick runs', () => {
+        const text = '`` emjs: `x` ``';
+        const [block] = findEmeraBlocks(text);
+        expect(block.content).toBe('emjs: `x`');
+        expect(text.slice(block.contentFrom, block.contentTo)).toBe('emjs: `x`');
+    });
+
+    it('ignores inline code inside other fences and code of other languages', () => {
+        const text = '```js\n`emjs: 1`\n```\n\n~~~emjs\nok\n~~~\n\n`emjs:1` `js: 2`';
+        expect(findEmeraBlocks(text).map(block => block.content)).toEqual(['ok', 'emjs:1']);
+    });
+
+    it('requires closing fence of the same kind and length', () => {
+        const text = '````emera\n```\n<A />\n````';
+        const [block] = findEmeraBlocks(text);
+        expect(block.content).toBe('```\n<A />');
+    });
+
+    it('skips unclosed blocks, but reports their fence until the end of text', () => {
+        const text = 'a\n\n```emera\n<A />';
+        expect(scanMarkdown(text)).toEqual({ blocks: [], fences: [{ from: 3, to: text.length }] });
+    });
+
+    it('does not treat inline code with triple backticks as fence', () => {
+        const text = '```emjs: 1``` is not a fence\n\n`emjs: 2`';
+        const { blocks, fences } = scanMarkdown(text);
+        expect(fences).toEqual([]);
+        expect(blocks.map(block => block.content)).toEqual(['emjs: 1', 'emjs: 2']);
+    });
+});
@@ -0,0 +1,42 @@
+// Parts of Obsidian API used by modules under test
+import type { CachedMetadata } from 'obsidian';
+
+export class TAbstractFile {
+    path = '';
+}
+
+export class TFile extends TAbstractFile {
+    get name() {
+        return this.path.split('/').pop()!;
+    }
+
+    get basename() {
+        return this.name.replace(/\.[^.]*$/, '');
+    }
+
+    get extension() {
+        return this.name.includes('.') ? this.name.split('.').pop()! : '';
+    }
+}
+
+export class TFolder extends TAbstractFile { }
+
+export class Modal { }
+
+export class MarkdownView { }
+
+export class Notice { }
+
+export const debounce = <T extends unknown[]>(cb: (...args: T) => void) => Object.assign(cb, { cancel: () => { } });
+
+// Tests which download anything mock it
+export const requestUrl = async (_request: { url: string, throw?: boolean }): Promise<{ status: number, text: string }> => {
+    throw new Error('No network in tests');
+};
+
+export const normalizePath = (path: string) => path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+
+export const getAllTags = (cache: CachedMetadata): string[] => {
+    const fromFrontmatter = [cache.frontmatter?.tags ?? []].flat().map((tag: string) => `#${tag}`);
+    return [...fromFrontmatter, ...(cache.tags ?? []).map(tag => tag.tag)];
+};
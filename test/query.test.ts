@@ -0,0 +1,130 @@
+import type { App, CachedMetadata, TFile } from 'obsidian';
+import { describe, expect, it } from 'vitest';
+import { createQuery } from '../src/emera-module/query';
+
+type FakeNote = {
+    path: string,
+    frontmatter?: Record<string, any>,
+    tags?: string[],
+    links?: string[],
+    content?: string,
+    tasks?: { line: number, task: string }[],
+    mtime?: number,
+};
+
+const createApp = (notes: FakeNote[]) => {
+    const files = notes.map((note): TFile => {
+        const parent = note.path.includes('/') ? note.path.slice(0, note.path.lastIndexOf('/')) : '';
+        return {
+            path: note.path,
+            basename: note.path.slice(note.path.lastIndexOf('/') + 1).replace(/\.md$/, ''),
+            extension: 'md',
+            parent: { path: parent },
+            stat: { ctime: 0, mtime: note.mtime ?? 0 },
+        } as unknown as TFile;
+    });
+    const byPath = new Map(notes.map(note => [note.path, note]));
+    const cache = (file: TFile): CachedMetadata => {
+        const note = byPath.get(file.path)!;
+        return {
+            frontmatter: note.frontmatter,
+            tags: (note.tags ?? []).map(tag => ({ tag })),
+            listItems: note.tasks?.map(({ line, task }) => ({ task, position: { start: { line } } })),
+        } as unknown as CachedMetadata;
+    };
+    return {
+        vault: {
+            getMarkdownFiles: () => files,
+            cachedRead: async (file: TFile) => byPath.get(file.path)!.content ?? '',
+        },
+        metadataCache: {
+            getFileCache: cache,
+            resolvedLinks: Object.fromEntries(notes.map(note => [note.path, Object.fromEntries((note.links ?? []).map(link => [link, 1]))])),
+        },
+    } as unknown as App;
+};
+
+const app = createApp([
+    { path: 'Projects/Emera.md', frontmatter: { status: 'active', rating: 5, tags: ['project/plugin'], meta: { owner: 'me' } }, links: ['Index.md'], mtime: 3 },
+    { path: 'Projects/Old.md', frontmatter: { status: 'done', rating: 2 }, tags: ['#project'], mtime: 1 },
+    { path: 'Projects/Archive/Older.md', frontmatter: { status: 'done', rating: 10 }, mtime: 2 },
+    { path: 'Index.md', links: ['Projects/Emera.md', 'Projects/Old.md'], tags: ['#Home'], mtime: 4 },
+    {
+        path: 'Todo.md',
+        content: '# Todo\n- [ ] Write tests\n- [x] Ship it\n  * [>] Later',
+        tasks: [{ line: 1, task: ' ' }, { line: 2, task: 'x' }, { line: 3, task: '>' }],
+    },
+]);
+
+const names = (pages: { name: string }[]) => pages.map(page => page.name);
+
+describe('Query', () => {
+    it('filters by folder, including subfolders', () => {
+        expect(names(createQuery(app).from('Projects/').run())).toEqual(['Emera', 'Old', 'Older']);
+        expect(names(createQuery(app).from('Projects/Archive').run())).toEqual(['Older']);
+        expect(createQuery(app).from('/').count()).toBe(5);
+    });
+
+    it('filters by tags, nested tags match their parent', () => {
+        expect(names(createQuery(app).withTag('project').run())).toEqual(['Emera', 'Old']);
+        expect(names(createQuery(app).withTag('#project/plugin').run())).toEqual(['Emera']);
+        expect(names(createQuery(app).withTag('home').run())).toEqual(['Index']);
+        expect(names(createQuery(app).from('Projects').withoutTag('project').run())).toEqual(['Older']);
+    });
+
+    it('supports where with value, operators, nested fields and predicates', () => {
+        expect(names(createQuery(app).where('status', 'done').run())).toEqual(['Old', 'Older']);
+        expect(names(createQuery(app).where('rating', '>=', 5).run())).toEqual(['Emera', 'Older']);
+        expect(names(createQuery(app).where('status', '!=', 'done').where('rating', 'exists', true).run())).toEqual(['Emera']);
+        expect(names(createQuery(app).where('rating', 'exists', false).run())).toEqual(['Index', 'Todo']);
+        expect(names(createQuery(app).where('name', 'contains', 'OLD').run())).toEqual(['Old', 'Older']);
+        expect(names(createQuery(app).where('meta.owner', 'me').run())).toEqual(['Emera']);
+        expect(names(createQuery(app).where(page => page.mtime > 2).run())).toEqual(['Emera', 'Index']);
+    });
+
+    it('filters by links in both directions', () => {
+        expect(names(createQuery(app).linksTo('Index.md').run())).toEqual(['Emera']);
+        expect(names(createQuery(app).linkedFrom('Index.md').run())).toEqual(['Emera', 'Old']);
+    });
+
+    it('sorts by several keys, missing values go last in ascending order', () => {
+        expect(names(createQuery(app).sortBy('rating').run())).toEqual(['Old', 'Emera', 'Older', 'Index', 'Todo']);
+        expect(names(createQuery(app).from('Projects').sortBy('rating', 'desc').run())).toEqual(['Older', 'Emera', 'Old']);
+        expect(names(createQuery(app).sortBy('status').sortBy(page => -page.mtime).run())).toEqual(['Emera', 'Older', 'Old', 'Index', 'Todo']);
+    });
+
+    it('limits results and is immutable', () => {
+        const projects = createQuery(app).from('Projects');
+        expect(names(projects.sortBy('mtime', 'desc').limit(2).run())).toEqual(['Emera', 'Older']);
+        expect(projects.first()?.name).toBe('Emera');
+        expect(projects.count()).toBe(3);
+        expect(createQuery(app).from('Nowhere').first()).toBe(null);
+    });
+
+    it('collects page fields', () => {
+        expect(createQuery(app).where('name', 'Emera').first()).toMatchObject({
+            path: 'Projects/Emera.md',
+            folder: 'Projects',
+            tags: ['#project/plugin'],
+            links: ['Index.md'],
+            frontmatter: { status: 'active' },
+        });
+    });
+});
+
+describe('TaskQuery', () => {
+    it('reads tasks of matching notes', async () => {
+        const tasks = await createQuery(app).tasks().run();
+        expect(tasks.map(({ text, status, completed, line }) => ({ text, status, completed, line }))).toEqual([
+            { text: 'Write tests', status: ' ', completed: false, line: 1 },
+            { text: 'Ship it', status: 'x', completed: true, line: 2 },
+            { text: 'Later', status: '>', completed: true, line: 3 },
+        ]);
+    });
+
+    it('filters tasks', async () => {
+        expect((await createQuery(app).tasks().completed(false).run()).map(task => task.text)).toEqual(['Write tests']);
+        expect((await createQuery(app).tasks().where(task => task.status === 'x').run()).map(task => task.text)).toEqual(['Ship it']);
+        expect(await createQuery(app).from('Projects').tasks().run()).toEqual([]);
+    });
+});
@@ -0,0 +1,138 @@
+import { requestUrl } from 'obsidian';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EmeraPlugin } from '../src/plugin';
+import { createRemoteModules } from '../src/remote-imports';
+
+vi.mock('obsidian', async importOriginal => ({
+    ...await importOriginal<typeof import('obsidian')>(),
+    requestUrl: vi.fn(),
+}));
+
+const MODULE_URL = 'https://esm.sh/confetti';
+const LOCK_FILE = 'Components/emera-lock.json';
+
+const createPlugin = (files: Record<string, string> = {}) => {
+    const plugin = {
+        settings: { componentsFolder: 'Components' },
+        app: {
+            vault: {
+                adapter: {
+                    exists: async (path: string) => path in files || Object.keys(files).some(file => file.startsWith(`${path}/`)),
+                    read: async (path: string) => files[path],
+                    write: async (path: string, content: string) => {
+                        files[path] = content;
+                    },
+                    mkdir: async () => { },
+                    remove: async (path: string) => {
+                        delete files[path];
+                    },
+                    list: async (path: string) => ({
+                        files: Object.keys(files).filter(file => file.startsWith(`${path}/`)),
+                        folders: [],
+                    }),
+                },
+            },
+        },
+    } as unknown as EmeraPlugin;
+    return { plugin, files };
+};
+
+const serve = (content: string) => {
+    vi.mocked(requestUrl).mockResolvedValue({ status: 200, text: content } as any);
+};
+
+// Loads module the same way Rollup does and saves lockfile
+const loadModule = async (plugin: EmeraPlugin, url: string, options?: { updatePins?: boolean }) => {
+    const remote = await createRemoteModules(plugin, options);
+    const rollupPlugin = remote.rollupPlugin() as any;
+    const content: string = await rollupPlugin.load(url);
+    await remote.save();
+    return content;
+};
+
+const readLock = (files: Record<string, string>) => JSON.parse(files[LOCK_FILE]);
+
+const getCachedFiles = (files: Record<string, string>) => {
+    return Object.keys(files).filter(path => path.startsWith('Components/remote-modules/'));
+};
+
+describe('createRemoteModules', () => {
+    beforeEach(() => {
+        vi.mocked(requestUrl).mockReset();
+    });
+
+    it('pins downloaded module and uses cached copy afterwards', async () => {
+        const { plugin, files } = createPlugin();
+        serve('export default 1;');
+        expect(await loadModule(plugin, MODULE_URL)).toBe('export default 1;');
+
+        const entry = readLock(files).modules[MODULE_URL];
+        expect(entry.integrity).toMatch(/^sha256-[0-9a-f]{64}$/);
+        expect(files[`Components/${entry.file}`]).toBe('export default 1;');
+
+        // Server now returns something else, but pinned copy is used without network
+        serve('export default 2;');
+        expect(await loadModule(plugin, MODULE_URL)).toBe('export default 1;');
+        expect(requestUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it('downloads missing cached copy again if it matches pin', async () => {
+        const { plugin, files } = createPlugin();
+        serve('export default 1;');
+        await loadModule(plugin, MODULE_URL);
+        getCachedFiles(files).forEach(path => delete files[path]);
+
+        expect(await loadModule(plugin, MODULE_URL)).toBe('export default 1;');
+        expect(getCachedFiles(files)).toHaveLength(1);
+    });
+
+    it('refuses content which doesn\'t match pin', async () => {
+        const { plugin, files } = createPlugin();
+        serve('export default 1;');
+        await loadModule(plugin, MODULE_URL);
+        const lockfile = files[LOCK_FILE];
+        getCachedFiles(files).forEach(path => delete files[path]);
+
+        serve('export default "compromised";');
+        await expect(loadModule(plugin, MODULE_URL)).rejects.toThrow(/doesn't match hash pinned in emera-lock\.json/);
+        expect(files[LOCK_FILE]).toBe(lockfile);
+        expect(getCachedFiles(files)).toEqual([]);
+    });
+
+    it('ignores tampered cached copy', async () => {
+        const { plugin, files } = createPlugin();
+        serve('export default 1;');
+        await loadModule(plugin, MODULE_URL);
+        const [cached] = getCachedFiles(files);
+        files[cached] = 'export default "tampered";';
+
+        expect(await loadModule(plugin, MODULE_URL)).toBe('export default 1;');
+        expect(files[cached]).toBe('export default 1;');
+    });
+
+    it('updates pins and removes modules which aren\'t used anymore', async () => {
+        const { plugin, files } = createPlugin();
+        serve('export default 1;');
+        await loadModule(plugin, MODULE_URL);
+        await loadModule(plugin, 'https://esm.sh/unused');
+
+        serve('export default 2;');
+        expect(await loadModule(plugin, MODULE_URL, { updatePins: true })).toBe('export default 2;');
+
+        const { modules } = readLock(files);
+        expect(Object.keys(modules)).toEqual([MODULE_URL]);
+        expect(getCachedFiles(files)).toEqual([`Components/${modules[MODULE_URL].file}`]);
+        expect(files[`Components/${modules[MODULE_URL].file}`]).toBe('export default 2;');
+    });
+
+    it('keeps pinned copy when update fails', async () => {
+        const { plugin, files } = createPlugin();
+        serve('export default 1;');
+        await loadModule(plugin, MODULE_URL);
+        const lockfile = files[LOCK_FILE];
+
+        vi.mocked(requestUrl).mockResolvedValue({ status: 503, text: '' } as any);
+        expect(await loadModule(plugin, MODULE_URL, { updatePins: true })).toBe('export default 1;');
+        expect(files[LOCK_FILE]).toBe(lockfile);
+    });
+});
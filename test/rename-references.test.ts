@@ -0,0 +1,88 @@
+import { TFile } from 'obsidian';
+import { describe, expect, it } from 'vitest';
+import type { EmeraPlugin } from '../src/plugin';
+import { collectReferenceUpdates } from '../src/rename-references';
+
+const createFile = (path: string) => Object.assign(new TFile(), { path });
+
+const createPlugin = (notes: Record<string, string>) => {
+    const files = Object.keys(notes).map(createFile);
+    const contents = new Map(files.map(file => [file, notes[file.path]]));
+    return {
+        settings: { componentsFolder: 'Components', libraries: [] },
+        userModule: {},
+        app: {
+            vault: {
+                getMarkdownFiles: () => files,
+                cachedRead: async (file: TFile) => contents.get(file)!,
+            },
+            metadataCache: {
+                // Simplified resolution, good enough for unique names
+                getFirstLinkpathDest: (linkpath: string) => {
+                    const target = linkpath.endsWith('.md') ? linkpath : `${linkpath}.md`;
+                    return files.find(file => file.path === target || file.path.endsWith(`/${target}`)) ?? null;
+                },
+            },
+        },
+    } as unknown as EmeraPlugin;
+};
+
+const rename = (plugin: EmeraPlugin, oldPath: string, newPath: string) => {
+    const file = (plugin.app.vault.getMarkdownFiles() as TFile[]).find(file => file.path === oldPath)!;
+    file.path = newPath;
+    return collectReferenceUpdates(plugin, [{ file, oldPath }]);
+};
+
+describe('collectReferenceUpdates', () => {
+    it('rewrites path and bare name note imports which pointed to renamed note', async () => {
+        const plugin = createPlugin({
+            'Journal/2026.md': '',
+            'Home.md': [
+                '```emjs',
+                `import a from 'note:Journal/2026.md';`,
+                `import b from "note:2026";`,
+                `import c from 'note:Other';`,
+                '```',
+            ].join('\n'),
+        });
+
+        const [update] = await rename(plugin, 'Journal/2026.md', 'Journal/2027.md');
+        expect(update.after).toBe([
+            '```emjs',
+            `import a from 'note:Journal/2027.md';`,
+            `import b from "note:2027";`,
+            `import c from 'note:Other';`,
+            '```',
+        ].join('\n'));
+    });
+
+    it('keeps imports which still resolve by name, e.g. when note is moved', async () => {
+        const plugin = createPlugin({
+            'Journal/2026.md': '',
+            'Home.md': '`emjs: import(\'note:2026\')` and `emjs: import(\'note:Journal/2026\')`',
+        });
+
+        const updates = await rename(plugin, 'Journal/2026.md', 'Archive/2026.md');
+        expect(updates.map(update => update.after)).toEqual(['`emjs: import(\'note:Archive/2026\')`']);
+    });
+
+    it('writes full path when new name is ambiguous', async () => {
+        const plugin = createPlugin({
+            'Archive/2027.md': '',
+            'Journal/2026.md': '',
+            'Home.md': '```emjs\nimport x from \'note:2026\';\n```',
+        });
+
+        const [update] = await rename(plugin, 'Journal/2026.md', 'Journal/Sub/2027.md');
+        // Resolver picks first match, which isn't the renamed note
+        expect(update.after).toBe('```emjs\nimport x from \'note:Journal/Sub/2027\';\n```');
+    });
+
+    it('does not touch imports of other notes', async () => {
+        const plugin = createPlugin({
+            'Journal/2026.md': '',
+            'Home.md': '```emjs\nimport x from \'note:Home\';\n```',
+        });
+        expect(await rename(plugin, 'Journal/2026.md', 'Journal/2027.md')).toEqual([]);
+    });
+});
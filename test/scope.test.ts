@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScopeNode } from '../src/scope';
+
+const createTree = () => {
+    const root = new ScopeNode('root');
+    const page = new ScopeNode('page/Note.md');
+    const block = new ScopeNode('page/Note.md/0');
+    root.addChild(page);
+    page.addChild(block);
+    return { root, page, block };
+};
+
+const listen = (scope: ScopeNode) => {
+    const calls: string[][] = [];
+    scope.onChange(changed => calls.push(Array.from(changed).sort()));
+    return calls;
+};
+
+describe('ScopeNode', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('batches changes and reports only keys with new values', () => {
+        const { root } = createTree();
+        root.setMany({ a: 1, b: 2 });
+        vi.runAllTimers();
+        const calls = listen(root);
+
+        root.set('a', 1);
+        root.setMany({ b: 3, c: 4 });
+        vi.runAllTimers();
+        expect(calls).toEqual([['b', 'c']]);
+    });
+
+    it('propagates changes to descendants, unless they shadow the key', () => {
+        const { root, page, block } = createTree();
+        page.set('x', 'own');
+        vi.runAllTimers();
+        const pageCalls = listen(page);
+        const blockCalls = listen(block);
+
+        root.setMany({ x: 1, y: 2 });
+        vi.runAllTimers();
+        expect(pageCalls).toEqual([['y']]);
+        expect(blockCalls).toEqual([['y']]);
+        expect(block.get('x')).toBe('own');
+        expect(block.get('y')).toBe(2);
+    });
+
+    it('reports removed keys', () => {
+        const { root } = createTree();
+        root.setMany({ Old: 1, Kept: 2 });
+        vi.runAllTimers();
+        const calls = listen(root);
+
+        root.unsetMany(['Old', 'Missing']);
+        vi.runAllTimers();
+        expect(calls).toEqual([['Old']]);
+        expect(root.has('Old')).toBe(false);
+        expect(root.has('Kept')).toBe(true);
+    });
+
+    it('reports only keys which were removed or changed after reset and repopulation', () => {
+        const { page } = createTree();
+        const shared = { value: 1 };
+        page.setMany({ same: shared, changed: 1, removed: true });
+        vi.runAllTimers();
+        const calls = listen(page);
+
+        page.reset();
+        page.setMany({ same: shared, changed: 2, added: 'new' });
+        vi.runAllTimers();
+        expect(calls).toEqual([['added', 'changed', 'removed']]);
+    });
+
+    it('does not call listeners when repopulated scope is the same', () => {
+        const { page } = createTree();
+        page.setMany({ a: 1 });
+        vi.runAllTimers();
+        const calls = listen(page);
+
+        page.reset();
+        page.setMany({ a: 1 });
+        vi.runAllTimers();
+        expect(calls).toEqual([]);
+    });
+
+    it('keeps changes made before reset in the same batch', () => {
+        const { page } = createTree();
+        page.setMany({ a: 1 });
+        vi.runAllTimers();
+        const calls = listen(page);
+
+        page.set('a', 2);
+        page.reset();
+        page.set('a', 2);
+        vi.runAllTimers();
+        expect(calls).toEqual([['a']]);
+    });
+
+    it('throws for identifiers missing in the whole tree', () => {
+        const { block } = createTree();
+        expect(() => block.get('nothing')).toThrow(`'nothing' but it isn't present`);
+        expect(() => block.getByPath('a.b')).toThrow();
+    });
+});
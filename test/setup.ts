@@ -0,0 +1,2 @@
+// Some modules read globals of Obsidian window when they're imported
+Object.assign(globalThis, { window: globalThis });
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createModuleUrl, mapErrorStack, registerSourceMap, SourceMap } from '../src/source-maps';
+
+// Segments are [generated column, source, original line, original column, name?], encoded as relative values:
+// line 1: [0,0,0,0] and [9,0,0,9]; line 2: [0,0,1,25]; line 3 is empty; line 4: [4,0,3,24,0]; line 5 has
+// segment without source
+const map: SourceMap = {
+    version: 3,
+    names: ['load'],
+    sources: ['../Components/widget.js'],
+    sourcesContent: ['one\ntwo\nthree\nfour\nfive'],
+    mappings: 'AAAA,SAAS;AACgB;;IAEDA;E',
+};
+
+const errorWithStack = (url: string) => {
+    const error = new Error('boom');
+    error.stack = [
+        'Error: boom',
+        `    at render (${url}:1:12)`,
+        `    at ${url}:2:1`,
+        '    at renderWithHooks (app://obsidian.md/app.js:10:20)',
+        `    at async load (${url}:4:6)`,
+        `    at ${url}:5:1`,
+    ].join('\n');
+    return error;
+};
+
+describe('mapErrorStack', () => {
+    it('maps frames of registered modules through decoded mappings', () => {
+        const url = createModuleUrl();
+        registerSourceMap(url, map, { path: 'Notes/Page.md', lineOffset: 10 });
+        const frames = mapErrorStack(errorWithStack(url));
+        expect(frames.map(({ functionName, path, line, column }) => ({ functionName, path, line, column }))).toEqual([
+            { functionName: 'render', path: 'Notes/Page.md', line: 11, column: 10 },
+            { functionName: null, path: 'Notes/Page.md', line: 12, column: 26 },
+            { functionName: 'load', path: 'Notes/Page.md', line: 14, column: 25 },
+        ]);
+        expect(frames[0].codeFrame).toEqual([
+            { line: 11, text: 'one', highlighted: true },
+            { line: 12, text: 'two', highlighted: false },
+            { line: 13, text: 'three', highlighted: false },
+        ]);
+    });
+
+    it('uses source path of map when origin is not known', () => {
+        const url = createModuleUrl();
+        registerSourceMap(url, map);
+        const [frame] = mapErrorStack(errorWithStack(url));
+        expect(frame).toMatchObject({ path: 'Components/widget.js', line: 1, column: 10 });
+    });
+
+    it('keeps only path when position of code in note is not known', () => {
+        const url = createModuleUrl();
+        registerSourceMap(url, map, { path: 'Notes/Page.md', lineOffset: null });
+        const [frame] = mapErrorStack(errorWithStack(url));
+        expect(frame).toMatchObject({ path: 'Notes/Page.md', line: null, column: 10 });
+    });
+
+    it('ignores unknown modules and values which are not errors', () => {
+        expect(mapErrorStack(errorWithStack('emera-module-unknown.js'))).toEqual([]);
+        expect(mapErrorStack('boom')).toEqual([]);
+    });
+});
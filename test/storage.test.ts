@@ -0,0 +1,132 @@
+import { getDefaultStore } from 'jotai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EmeraPlugin } from '../src/plugin';
+import { createEmeraStorage } from '../src/emera-module/storage';
+
+const NOTES_FILE = 'Components/note-storage.json';
+
+const createPlugin = (files: Record<string, string> = {}, notes: string[] = []) => {
+    const write = vi.fn(async (path: string, content: string) => {
+        files[path] = content;
+    });
+    const plugin = {
+        settings: { componentsFolder: 'Components' },
+        app: {
+            vault: {
+                adapter: {
+                    exists: async (path: string) => path in files,
+                    read: async (path: string) => files[path],
+                    write,
+                },
+                getAbstractFileByPath: (path: string) => notes.includes(path) ? { path } : null,
+            },
+        },
+    } as unknown as EmeraPlugin;
+    return { plugin, files, write };
+};
+
+const readNotes = (files: Record<string, string>) => JSON.parse(files[NOTES_FILE]);
+
+describe('createEmeraStorage', () => {
+    const store = getDefaultStore();
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('reads saved values and drops notes which no longer exist', async () => {
+        const { plugin } = createPlugin({
+            [NOTES_FILE]: JSON.stringify({
+                'Note.md': { note: { count: 3 }, blocks: { abc: { open: true } } },
+                'Deleted.md': { note: { count: 1 }, blocks: {} },
+            }),
+        }, ['Note.md']);
+        const storage = createEmeraStorage(plugin);
+        await storage.init();
+
+        expect(store.get(storage.getNoteAtom('Note.md', 'count', 0))).toBe(3);
+        expect(store.get(storage.getBlockAtom('Note.md', 'abc', 'open', false))).toBe(true);
+        expect(store.get(storage.getNoteAtom('Deleted.md', 'count', 0))).toBe(0);
+        storage.destroy();
+    });
+
+    it('writes note and block namespaces in one batch', async () => {
+        const { plugin, files, write } = createPlugin({}, ['Note.md']);
+        const storage = createEmeraStorage(plugin);
+        await storage.init();
+
+        store.set(storage.getNoteAtom('Note.md', 'count', 0) as any, 5);
+        store.set(storage.getBlockAtom('Note.md', 'abc', 'open', false) as any, true);
+        await vi.runAllTimersAsync();
+
+        expect(write).toHaveBeenCalledTimes(1);
+        expect(readNotes(files)).toEqual({ 'Note.md': { note: { count: 5 }, blocks: { abc: { open: true } } } });
+        storage.destroy();
+    });
+
+    it('moves data and atoms in use with renamed notes and folders', async () => {
+        const { plugin, files } = createPlugin({}, ['Folder/Note.md']);
+        const storage = createEmeraStorage(plugin);
+        await storage.init();
+        const countAtom = storage.getNoteAtom('Folder/Note.md', 'count', 0);
+        store.set(countAtom as any, 1);
+
+        storage.renameNote('Folder', 'Renamed');
+        // Component which already uses atom keeps writing into new location
+        store.set(countAtom as any, 2);
+        await vi.runAllTimersAsync();
+
+        expect(readNotes(files)).toEqual({ 'Renamed/Note.md': { note: { count: 2 }, blocks: {} } });
+        expect(storage.getNoteAtom('Renamed/Note.md', 'count', 0)).toBe(countAtom);
+        storage.destroy();
+    });
+
+    it('drops data and atoms of deleted notes', async () => {
+        const { plugin, files } = createPlugin({}, ['Note.md', 'Other.md']);
+        const storage = createEmeraStorage(plugin);
+        await storage.init();
+        const countAtom = storage.getNoteAtom('Note.md', 'count', 0);
+        store.set(countAtom as any, 1);
+        store.set(storage.getNoteAtom('Other.md', 'count', 0) as any, 1);
+
+        storage.deleteNote('Note.md');
+        store.set(countAtom as any, 2);
+        await vi.runAllTimersAsync();
+
+        expect(readNotes(files)).toEqual({ 'Other.md': { note: { count: 1 }, blocks: {} } });
+        expect(storage.getNoteAtom('Note.md', 'count', 0)).not.toBe(countAtom);
+        storage.destroy();
+    });
+
+    it('keeps changes when write fails and saves them with the next write', async () => {
+        const { plugin, files, write } = createPlugin({}, ['Note.md']);
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        const storage = createEmeraStorage(plugin);
+        await storage.init();
+
+        write.mockRejectedValueOnce(new Error('read-only'));
+        store.set(storage.getNoteAtom('Note.md', 'a', 0) as any, 1);
+        await vi.runAllTimersAsync();
+        expect(files[NOTES_FILE]).toBeUndefined();
+
+        // Pending changes are written when plugin is unloaded
+        storage.destroy();
+        await vi.runAllTimersAsync();
+        expect(readNotes(files)).toEqual({ 'Note.md': { note: { a: 1 }, blocks: {} } });
+    });
+
+    it('writes scheduled changes when destroyed', async () => {
+        const { plugin, files } = createPlugin({}, ['Note.md']);
+        const storage = createEmeraStorage(plugin);
+        await storage.init();
+
+        store.set(storage.getAtom('theme', 'light') as any, 'dark');
+        storage.destroy();
+        await vi.runAllTimersAsync();
+        expect(JSON.parse(files['Components/storage.json'])).toEqual({ theme: 'dark' });
+    });
+});
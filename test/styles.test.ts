@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { compileCssModule } from '../src/styles';
+
+describe('compileCssModule', () => {
+    const compile = (css: string) => compileCssModule(css, 'Components/card.module.css');
+
+    it('renames classes with suffix derived from path', () => {
+        const { css, classes } = compile('.card { color: red; }\n.card .title, .footer:hover { margin: 0; }');
+        const suffix = classes.card.slice('card_'.length);
+        expect(suffix).toHaveLength(6);
+        expect(classes).toEqual({ card: `card_${suffix}`, title: `title_${suffix}`, footer: `footer_${suffix}` });
+        expect(css).toBe(`.card_${suffix} { color: red; }\n.card_${suffix} .title_${suffix}, .footer_${suffix}:hover { margin: 0; }`);
+    });
+
+    it('uses different names for different files', () => {
+        expect(compileCssModule('.a {}', 'a.module.css').classes.a).not.toBe(compileCssModule('.a {}', 'b.module.css').classes.a);
+    });
+
+    it('keeps global selectors and declarations as is', () => {
+        const { css, classes } = compile(':global(.theme-dark) .box { background: url(img.png); width: 1.5em; }');
+        expect(Object.keys(classes)).toEqual(['box']);
+        expect(css).toBe(`.theme-dark .${classes.box} { background: url(img.png); width: 1.5em; }`);
+    });
+
+    it('scopes selectors inside pseudo classes and at-rules, but not their preludes', () => {
+        const { css, classes } = compile('@media (min-width: 10.5em) { .a:not(.b) { color: red; } }');
+        expect(css).toBe(`@media (min-width: 10.5em) { .${classes.a}:not(.${classes.b}) { color: red; } }`);
+    });
+
+    it('ignores class-like text in comments and strings', () => {
+        const { css, classes } = compile('/* .comment { } */ .a::after { content: ".b {"; }');
+        expect(Object.keys(classes)).toEqual(['a']);
+        expect(css).toBe(`/* .comment { } */ .${classes.a}::after { content: ".b {"; }`);
+    });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { EmeraPlugin } from '../src/plugin';
+import { TranspileCache, TranspileResult } from '../src/transpile-cache';
+
+const CACHE_FILE = '.obsidian/plugins/emera/transpile-cache.json';
+
+const createPlugin = (files: Record<string, string> = {}, version = '1.0.0') => {
+    let failWrites = false;
+    const plugin = {
+        manifest: { dir: '.obsidian/plugins/emera', version },
+        app: {
+            vault: {
+                adapter: {
+                    exists: async (path: string) => path in files,
+                    read: async (path: string) => files[path],
+                    write: async (path: string, content: string) => {
+                        if (failWrites) throw new Error('Disk is full');
+                        files[path] = content;
+                    },
+                    remove: async (path: string) => {
+                        delete files[path];
+                    },
+                },
+            },
+        },
+    } as unknown as EmeraPlugin;
+    return { plugin, files, setFailWrites: (value: boolean) => { failWrites = value; } };
+};
+
+const createResult = (code: string): TranspileResult => ({
+    code,
+    map: { version: 3, sources: ['block.js'], sourcesContent: ['source'], names: [], mappings: 'AAAA' },
+    reads: ['useState'],
+});
+
+describe('TranspileCache', () => {
+    it('returns results only for same source and variant', () => {
+        const cache = new TranspileCache();
+        cache.set('const a = 1;', 'scope-a', createResult('a'));
+
+        expect(cache.get('const a = 1;', 'scope-a')?.code).toBe('a');
+        expect(cache.get('const a = 2;', 'scope-a')).toBeNull();
+        expect(cache.get('const a = 1;', 'scope-b')).toBeNull();
+    });
+
+    it('replaces result for the same input', () => {
+        const cache = new TranspileCache();
+        cache.set('source', 'variant', createResult('old'));
+        cache.set('source', 'variant', createResult('new'));
+
+        expect(cache.get('source', 'variant')?.code).toBe('new');
+    });
+
+    it('evicts least recently used entries when memory limit is exceeded', () => {
+        const cache = new TranspileCache();
+        const code = 'x'.repeat(4_000_000);
+        cache.set('first', '', createResult(code));
+        cache.set('second', '', createResult(code));
+        // Hit moves entry to the end, so second entry becomes the oldest one
+        cache.get('first', '');
+        cache.set('third', '', createResult(code));
+
+        expect(cache.get('first', '')).not.toBeNull();
+        expect(cache.get('second', '')).toBeNull();
+        expect(cache.get('third', '')).not.toBeNull();
+    });
+
+    it('restores saved entries with their source', async () => {
+        const { plugin, files } = createPlugin();
+        const cache = new TranspileCache();
+        cache.set('source', 'variant', createResult('code'));
+        await cache.save(plugin);
+
+        expect(JSON.parse(files[CACHE_FILE]).entries[0][1].map.sourcesContent).toBeUndefined();
+
+        const restored = new TranspileCache();
+        await restored.load(plugin);
+        expect(restored.get('source', 'variant')).toMatchObject({
+            code: 'code',
+            reads: ['useState'],
+            map: { sourcesContent: ['source'] },
+        });
+    });
+
+    it('drops file saved by another version of plugin or Babel', async () => {
+        const { plugin, files } = createPlugin();
+        const cache = new TranspileCache();
+        cache.set('source', 'variant', createResult('code'));
+        await cache.save(plugin);
+
+        const updated = createPlugin(files, '1.1.0');
+        const restored = new TranspileCache();
+        await restored.load(updated.plugin);
+        expect(restored.get('source', 'variant')).toBeNull();
+        expect(files[CACHE_FILE]).toBeUndefined();
+
+        // Same plugin version, but file was written with older Babel
+        files[CACHE_FILE] = JSON.stringify({ version: '2:1.0.0:0.0.0', entries: [] });
+        await restored.load(plugin);
+        expect(files[CACHE_FILE]).toBeUndefined();
+    });
+
+    it('keeps only most recently used entries on disk', async () => {
+        const { plugin } = createPlugin();
+        const cache = new TranspileCache();
+        const code = 'x'.repeat(900_000);
+        ['first', 'second', 'third', 'fourth'].forEach(source => cache.set(source, '', createResult(code)));
+        await cache.save(plugin);
+
+        const restored = new TranspileCache();
+        await restored.load(plugin);
+        expect(restored.get('first', '')).toBeNull();
+        expect(restored.get('second', '')).not.toBeNull();
+        expect(restored.get('fourth', '')).not.toBeNull();
+    });
+
+    it('writes again after failed save', async () => {
+        const { plugin, files, setFailWrites } = createPlugin();
+        const cache = new TranspileCache();
+        cache.set('source', 'variant', createResult('code'));
+
+        setFailWrites(true);
+        await expect(cache.save(plugin)).rejects.toThrow('Disk is full');
+        setFailWrites(false);
+        await cache.save(plugin);
+        expect(files[CACHE_FILE]).toBeDefined();
+
+        // Nothing changed since last save
+        delete files[CACHE_FILE];
+        await cache.save(plugin);
+        expect(files[CACHE_FILE]).toBeUndefined();
+    });
+});
@@ -0,0 +1,89 @@
+import type { TFile } from 'obsidian';
+import { describe, expect, it, vi } from 'vitest';
+import type { EmeraPlugin } from '../src/plugin';
+import { createEmeraTrust, getBlockHash } from '../src/trust';
+
+const createPlugin = (settings: Partial<EmeraPlugin['settings']> = {}) => ({
+    settings: { requireTrust: true, trustedFolders: [], trustedNotes: {}, ...settings },
+    saveSettings: vi.fn(async () => { }),
+}) as unknown as EmeraPlugin;
+
+const file = (path: string) => ({ path }) as TFile;
+
+describe('getBlockHash', () => {
+    it('ignores whitespace around content and formatting of attributes', async () => {
+        expect(await getBlockHash('block-js', '\n  const a = 1;  \n')).toBe(await getBlockHash('block-js', 'const a = 1;'));
+        expect(await getBlockHash('block-jsx', '<A />', { attributes: { id: 'abc', hidden: true } }))
+            .toBe(await getBlockHash('block-jsx', '<A />', { attributes: { hidden: true } }));
+    });
+
+    it('changes with type, content, component and attributes', async () => {
+        const base = await getBlockHash('block-jsx', 'text', { shortcutComponent: 'Callout', attributes: { type: 'info' } });
+        const variants = await Promise.all([
+            getBlockHash('block-js', 'text', { shortcutComponent: 'Callout', attributes: { type: 'info' } }),
+            getBlockHash('block-jsx', 'other', { shortcutComponent: 'Callout', attributes: { type: 'info' } }),
+            getBlockHash('block-jsx', 'text', { shortcutComponent: 'Alert', attributes: { type: 'info' } }),
+            getBlockHash('block-jsx', 'text', { shortcutComponent: 'Callout', attributes: { type: 'warning' } }),
+            getBlockHash('block-jsx', 'text', { shortcutComponent: 'Callout', attributes: { type: 'info', output: true } }),
+        ]);
+        variants.forEach(hash => expect(hash).not.toBe(base));
+    });
+});
+
+describe('createEmeraTrust', () => {
+    it('trusts everything when trust is not required', async () => {
+        const trust = createEmeraTrust(createPlugin({ requireTrust: false }));
+        expect(await trust.isTrusted(file('Note.md'), 'block-js', 'code')).toBe(true);
+    });
+
+    it('trusts notes in trusted folders', async () => {
+        const trust = createEmeraTrust(createPlugin({ trustedFolders: ['Scripts/', ' '] }));
+        expect(await trust.isTrusted(file('Scripts/Note.md'), 'block-js', 'code')).toBe(true);
+        expect(await trust.isTrusted(file('ScriptsOther/Note.md'), 'block-js', 'code')).toBe(false);
+        expect(await trust.isTrusted(null, 'block-js', 'code')).toBe(false);
+        expect(await createEmeraTrust(createPlugin({ trustedFolders: ['/'] })).isTrusted(file('Any.md'), 'block-js', 'code')).toBe(true);
+    });
+
+    it('remembers blocks approved once for the note they were approved in', async () => {
+        const trust = createEmeraTrust(createPlugin());
+        await trust.runOnce(file('Note.md'), 'inline-js', 'emjs: 1');
+        expect(await trust.isTrusted(file('Note.md'), 'inline-js', 'emjs: 1')).toBe(true);
+        expect(await trust.isTrusted(file('Other.md'), 'inline-js', 'emjs: 1')).toBe(false);
+        expect(await trust.isTrusted(file('Note.md'), 'inline-js', 'emjs: 2')).toBe(false);
+    });
+
+    it('trusts only blocks which were shown to user, and keeps previous approvals', async () => {
+        const plugin = createPlugin();
+        const trust = createEmeraTrust(plugin);
+        await trust.trustNote(file('Note.md'), [{ type: 'block-js', content: 'a' }]);
+        await trust.trustNote(file('Note.md'), [{ type: 'block-jsx', content: 'b', shortcutComponent: 'Callout', attributes: { type: 'info' } }]);
+
+        expect(await trust.isTrusted(file('Note.md'), 'block-js', 'a')).toBe(true);
+        expect(await trust.isTrusted(file('Note.md'), 'block-jsx', 'b', { shortcutComponent: 'Callout', attributes: { type: 'info' } })).toBe(true);
+        expect(await trust.isTrusted(file('Note.md'), 'block-jsx', 'b', { shortcutComponent: 'Callout', attributes: { type: 'danger' } })).toBe(false);
+        expect(plugin.settings.trustedNotes['Note.md']).toHaveLength(2);
+        expect(plugin.saveSettings).toHaveBeenCalledTimes(2);
+    });
+
+    it('moves approvals with renamed notes and folders and drops them with deleted ones', async () => {
+        const plugin = createPlugin({ trustedNotes: { 'A/Note.md': ['1'], 'A/B/Deep.md': ['2'], 'AB.md': ['3'] } });
+        const trust = createEmeraTrust(plugin);
+
+        await trust.renameNote('A', 'C');
+        expect(plugin.settings.trustedNotes).toEqual({ 'C/Note.md': ['1'], 'C/B/Deep.md': ['2'], 'AB.md': ['3'] });
+
+        await trust.deleteNote('C/B');
+        expect(plugin.settings.trustedNotes).toEqual({ 'C/Note.md': ['1'], 'AB.md': ['3'] });
+
+        await trust.untrustNote('AB.md');
+        expect(plugin.settings.trustedNotes).toEqual({ 'C/Note.md': ['1'] });
+    });
+
+    it('does not save settings when rename or delete does not affect them', async () => {
+        const plugin = createPlugin({ trustedNotes: { 'Note.md': ['1'] } });
+        const trust = createEmeraTrust(plugin);
+        await trust.renameNote('Other.md', 'New.md');
+        await trust.deleteNote('Other.md');
+        expect(plugin.saveSettings).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        // Package contains only type declarations, Obsidian provides implementation at runtime
+        alias: {
+            obsidian: fileURLToPath(new URL('./test/obsidian.ts', import.meta.url)),
+        },
+    },
+    test: {
+        include: ['test/**/*.test.ts'],
+        setupFiles: ['test/setup.ts'],
+    },
+});